@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { isChangelogFormat, renderChangelog, type ChangelogEntry } from '@/lib/changelog';
+import { normalizeReleaseNotes } from '@/lib/audiences';
+
+const isChangelogEntry = (value: unknown): value is ChangelogEntry => {
+  const entry = value as ChangelogEntry;
+  return (
+    typeof entry === 'object' && entry !== null &&
+    typeof entry.id === 'string' &&
+    typeof entry.title === 'string' &&
+    normalizeReleaseNotes(entry.notes) !== null
+  );
+};
+
+/**
+ * Renders the posted notes as a changelog file in the requested format
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { format = 'keep-a-changelog', entries, version, date, repository } = await req.json() as {
+      format?: string;
+      entries?: unknown[];
+      version?: string;
+      date?: string;
+      repository?: string;
+    };
+
+    if (!isChangelogFormat(format)) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported format "${format}"` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!Array.isArray(entries) || entries.length === 0 || !entries.every(isChangelogEntry)) {
+      return new Response(
+        JSON.stringify({ error: 'entries must be a non-empty list of { id, title, url, notes }' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const file = renderChangelog(
+      entries.map(entry => ({ ...entry, url: entry.url || '', notes: normalizeReleaseNotes(entry.notes)! })),
+      format,
+      { version, date, repository }
+    );
+
+    return new Response(file.content, {
+      status: 200,
+      headers: {
+        'Content-Type': `${file.mimeType}; charset=utf-8`,
+        // renderChangelog limits the filename to [\w.-]
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Error in changelog route:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Failed to render changelog'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
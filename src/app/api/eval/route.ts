@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import { getLLMConfig, getLLMProvider } from '@/lib/llm';
+import { getPromptTemplate } from '@/lib/prompt-registry';
+import { compareEvaluations, formatComparison, loadEvalDataset, runEvaluation } from '@/lib/eval';
+
+// Node.js runtime: datasets and mock fixtures are read from disk
+export const runtime = 'nodejs';
+
+interface EvalVariant {
+  label?: string;
+  /** Prompt template, as `<id>` or `<id>@<version>` */
+  promptId?: string;
+  /** Model for the configured provider (default `LLM_MODEL`) */
+  model?: string;
+}
+
+/**
+ * Runs an eval dataset with a baseline and a candidate prompt or model and
+ * compares the scores. Responds with JSON, or Markdown given `"format": "markdown"`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Parse the request body
+    const {
+      dataset: datasetName,
+      baseline = {},
+      candidate = {},
+      format = 'json',
+    } = await req.json() as {
+      dataset?: string;
+      baseline?: EvalVariant;
+      candidate?: EvalVariant;
+      format?: 'json' | 'markdown';
+    };
+
+    const unknownPrompt = [baseline.promptId, candidate.promptId].find(id => id !== undefined && !getPromptTemplate(id));
+    if (unknownPrompt) {
+      return new Response(
+        JSON.stringify({ error: `Unknown prompt template: ${unknownPrompt}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let dataset;
+    try {
+      dataset = await loadEvalDataset(datasetName);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: `Failed to load eval dataset "${datasetName ?? 'release-notes'}"`,
+          details: error instanceof Error ? error.message : String(error),
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Both runs use the configured provider; only the model and prompt differ
+    const config = getLLMConfig();
+    const run = ({ label, promptId, model }: EvalVariant, fallbackLabel: string) => {
+      const provider = getLLMProvider({ ...config, model: model ?? config.model, record: false });
+      return runEvaluation(dataset, { provider, promptId, label: label ?? fallbackLabel, signal: req.signal });
+    };
+
+    // One run at a time, so the candidate isn't slowed by the baseline's requests
+    const baselineRun = await run(baseline, 'baseline');
+    const candidateRun = await run(candidate, 'candidate');
+    const comparison = compareEvaluations(baselineRun, candidateRun);
+
+    if (format === 'markdown') {
+      return new Response(formatComparison(comparison), {
+        status: 200,
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+      });
+    }
+
+    return new Response(JSON.stringify(comparison), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Error in eval route:', error);
+    }
+
+    return new Response(JSON.stringify({
+      error: 'Failed to run evaluation',
+      details: error instanceof Error ? error.message : String(error),
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
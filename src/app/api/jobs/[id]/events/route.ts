@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { createJobEventStream, getAnalysisJob, parseEventId } from '@/lib/analysis-jobs';
+
+// Node.js runtime: jobs run in this server process
+export const runtime = 'nodejs';
+
+/**
+ * Streams a job's events as SSE from the start, or after the event named by
+ * the `Last-Event-ID` header when resuming
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (!getAnalysisJob(id)) {
+    return new Response(
+      JSON.stringify({ error: 'Analysis job not found or expired' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const resume = parseEventId(req.headers.get('Last-Event-ID'));
+  return createJobEventStream(id, resume?.jobId === id ? resume.lastEventId : 0);
+}
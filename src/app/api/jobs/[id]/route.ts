@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { cancelAnalysisJob, getAnalysisJob } from '@/lib/analysis-jobs';
+
+// Node.js runtime: jobs run in this server process
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => new Response(
+  JSON.stringify({ error: 'Analysis job not found or expired' }),
+  { status: 404, headers: { 'Content-Type': 'application/json' } }
+);
+
+/**
+ * Returns a job's status, and its notes once it has succeeded
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const job = getAnalysisJob((await params).id);
+  if (!job) return notFound();
+
+  return new Response(JSON.stringify(job), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Cancels a queued or running job. Finished jobs are returned unchanged.
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  const job = cancelAnalysisJob((await params).id);
+  if (!job) return notFound();
+
+  return new Response(JSON.stringify(job), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
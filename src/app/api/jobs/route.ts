@@ -0,0 +1,133 @@
+import { NextRequest } from 'next/server';
+import { getLLMProvider } from '@/lib/llm';
+import { getAnalysisCache } from '@/lib/analysis-cache';
+import { enqueueAnalysisJob, listAnalysisJobs } from '@/lib/analysis-jobs';
+import { DEFAULT_OWNER, DEFAULT_REPO } from '@/lib/github';
+import { getRepositoryDiffSource, isValidChangeId } from '@/lib/diff-sources';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { getNotesStore } from '@/lib/notes-store';
+import { hashDiff } from '@/lib/diff-hash';
+import { getPromptTemplate } from '@/lib/prompt-registry';
+import type { PR } from '@/lib/utils';
+import type { AnalysisJobStatus } from '@/types/analysis-jobs';
+
+// Node.js runtime: jobs run in this server process, and the notes store writes files
+export const runtime = 'nodejs';
+
+// Upper bound on PRs queued by one request
+const MAX_PRS = 50;
+
+const JOB_STATUSES: AnalysisJobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+/**
+ * Lists jobs, newest first. `?status=queued,running` limits the list to those statuses.
+ */
+export async function GET(request: NextRequest) {
+  const statusParam = request.nextUrl.searchParams.get('status');
+  const statuses = statusParam ? statusParam.split(',') as AnalysisJobStatus[] : undefined;
+
+  if (statuses?.some(status => !JOB_STATUSES.includes(status))) {
+    return new Response(
+      JSON.stringify({ error: `status must be a comma-separated list of: ${JOB_STATUSES.join(', ')}` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(JSON.stringify({ jobs: listAnalysisJobs(statuses) }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Queues a background analysis for each PR. Finished notes are saved to the
+ * notes store, where the page picks them up the next time the PR is opened.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Parse the request body
+    const {
+      owner: requestedOwner = DEFAULT_OWNER,
+      repo: requestedRepo = DEFAULT_REPO,
+      prIds,
+      priority = 0,
+      force = false,
+      promptId,
+    } = await req.json() as {
+      owner?: string;
+      repo?: string;
+      prIds?: string[];
+      priority?: number;
+      force?: boolean;
+      promptId?: string;
+    };
+
+    if (!Array.isArray(prIds) || prIds.length === 0 || prIds.some(id => !isValidChangeId(String(id)))) {
+      return new Response(
+        JSON.stringify({ error: 'prIds must be a non-empty list of PR numbers or commit ids' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+      return new Response(
+        JSON.stringify({ error: 'priority must be a number' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (promptId !== undefined && (typeof promptId !== 'string' || !getPromptTemplate(promptId))) {
+      return new Response(
+        JSON.stringify({ error: `Unknown prompt template: ${promptId}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Sources bound to one repository (such as a local checkout) report it
+    const source = getRepositoryDiffSource(requestedOwner, requestedRepo);
+    const { owner, repo } = source.repository ?? { owner: requestedOwner, repo: requestedRepo };
+
+    const uniqueIds = Array.from(new Set(prIds.map(String))).slice(0, MAX_PRS);
+    const fetched = await mapWithConcurrency(uniqueIds, 5, id => source.getChange(owner, repo, id));
+    const prs = fetched.filter((pr): pr is PR => pr !== null);
+
+    if (prs.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No pull requests found to analyze' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Initialize the configured LLM provider (see src/lib/llm)
+    const provider = getLLMProvider();
+    const cache = getAnalysisCache();
+
+    const jobs = prs.map(pr => enqueueAnalysisJob(
+      { diffContent: pr.diff, diffId: pr.id, description: pr.description, labels: pr.labels, force, promptId, owner, repo },
+      { provider, cache },
+      {
+        priority,
+        onCompleted: async ({ notes, model, prompt }) => {
+          await getNotesStore().put({ owner, repo, prId: pr.id, diffHash: hashDiff(pr.diff), notes, model, prompt });
+        },
+      }
+    ));
+
+    return new Response(JSON.stringify({ jobs }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Error in jobs route:', error);
+    }
+
+    return new Response(JSON.stringify({
+      error: 'Failed to queue analysis jobs',
+      details: error instanceof Error ? error.message : String(error),
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
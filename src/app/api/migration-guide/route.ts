@@ -0,0 +1,129 @@
+import { NextRequest } from 'next/server';
+import { getLLMProvider } from '@/lib/llm';
+import { isAbortError } from '@/lib/analysis';
+import { generateMigrationGuide } from '@/lib/migration-guide';
+
+// Node.js runtime: the mock and record LLM providers read and write fixture files
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  try {
+    // Parse the request body
+    const { diffContent, diffId, description, releaseNote } = await req.json() as {
+      diffContent?: string;
+      diffId?: string;
+      description?: string;
+      releaseNote?: string;
+    };
+
+    if (!diffContent) {
+      return new Response(
+        JSON.stringify({ error: 'Missing diff content' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Initialize the configured LLM provider (see src/lib/llm)
+    const provider = getLLMProvider();
+
+    // Create an SSE encoder stream
+    const encoder = new TextEncoder();
+    let isClosed = false;
+    const abortController = new AbortController();
+
+    const stream = new ReadableStream({
+      async start(controller) {
+
+        // Helper function to safely enqueue data
+        const safeEnqueue = (data: Uint8Array) => {
+          if (!isClosed) {
+            try {
+              controller.enqueue(data);
+            } catch {
+              // Controller is already closed or errored
+              isClosed = true;
+            }
+          }
+        };
+
+        // Helper function to safely close controller
+        const safeClose = () => {
+          if (!isClosed) {
+            try {
+              controller.close();
+              isClosed = true;
+            } catch {
+              // Controller already closed
+              isClosed = true;
+            }
+          }
+        };
+
+        const send = (event: object) => safeEnqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+        try {
+          send({ type: 'start', data: { diffId, model: provider.defaultModel } });
+
+          // Stream the guide's text as progress events, then send the cleaned-up result
+          const guide = await generateMigrationGuide(
+            { diffContent, description, releaseNote },
+            {
+              provider,
+              signal: abortController.signal,
+              isClosed: () => isClosed,
+              onDelta: (delta) => send({ type: 'progress', data: delta }),
+            }
+          );
+
+          if (guide !== null) {
+            send({ type: 'complete', data: guide });
+          }
+          safeClose();
+        } catch (error) {
+          if (isAbortError(error)) {
+            // Connection was aborted, just close silently
+            safeClose();
+            return;
+          }
+
+          if (process.env.NODE_ENV === 'development') {
+            console.error('Error in migration-guide stream:', error);
+          }
+          send({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error while generating the migration guide',
+          });
+          safeClose();
+        }
+      },
+
+      cancel() {
+        // Called when the client disconnects
+        isClosed = true;
+        abortController.abort();
+      }
+    });
+
+    // Return the stream as a response with proper SSE headers
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'Content-Encoding': 'none'
+      }
+    });
+
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Error in migration-guide route:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Failed to generate migration guide'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { DEFAULT_OWNER, DEFAULT_REPO } from '@/lib/github';
+import { normalizeReleaseNotes } from '@/lib/audiences';
+import { getNotesStore, isValidNotesKey } from '@/lib/notes-store';
+import { isPromptRef } from '@/lib/prompt-registry';
+
+// Node.js runtime: the default notes store reads and writes files
+export const runtime = 'nodejs';
+
+const json = (body: unknown, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+/**
+ * Returns the stored notes for a PR's diff, or 404 if it hasn't been analyzed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const key = {
+      owner: searchParams.get('owner') || DEFAULT_OWNER,
+      repo: searchParams.get('repo') || DEFAULT_REPO,
+      prId: searchParams.get('prId') || '',
+      diffHash: searchParams.get('diffHash') || '',
+    };
+
+    if (!isValidNotesKey(key)) {
+      return json({ error: 'owner, repo, prId and diffHash must be non-empty and contain only letters, digits, ".", "_" or "-"' }, 400);
+    }
+
+    const stored = await getNotesStore().get(key);
+    if (!stored) {
+      return json({ error: 'No notes stored for this diff' }, 404);
+    }
+
+    return json(stored);
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Error reading notes:', error);
+    }
+
+    return json({
+      error: 'Failed to read notes',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
+
+/**
+ * Stores completed notes for a PR's diff, replacing any existing entry
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const { owner = DEFAULT_OWNER, repo = DEFAULT_REPO, prId, diffHash, notes, model, prompt } = await req.json() as {
+      owner?: string;
+      repo?: string;
+      prId?: string;
+      diffHash?: string;
+      notes?: unknown;
+      model?: string;
+      prompt?: unknown;
+    };
+
+    const key = { owner, repo, prId, diffHash };
+    if (!isValidNotesKey(key)) {
+      return json({ error: 'owner, repo, prId and diffHash must be non-empty and contain only letters, digits, ".", "_" or "-"' }, 400);
+    }
+
+    const releaseNotes = normalizeReleaseNotes(notes);
+    if (!releaseNotes) {
+      return json({ error: 'notes must be an object with an "audiences" map of strings' }, 400);
+    }
+
+    const stored = await getNotesStore().put({
+      ...key,
+      notes: releaseNotes,
+      ...(typeof model === 'string' ? { model } : {}),
+      ...(isPromptRef(prompt) ? { prompt } : {}),
+    });
+
+    return json(stored);
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Error storing notes:', error);
+    }
+
+    return json({
+      error: 'Failed to store notes',
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
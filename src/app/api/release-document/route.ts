@@ -0,0 +1,180 @@
+import { NextRequest } from 'next/server';
+import { getLLMProvider } from '@/lib/llm';
+import { isAbortError } from '@/lib/analysis';
+import { filterRelevantPRs, rankPRs, type PR } from '@/lib/utils';
+import { DEFAULT_OWNER, DEFAULT_REPO } from '@/lib/github';
+import { getRepositoryDiffSource, isValidChangeId } from '@/lib/diff-sources';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { runReleaseAnalysis } from '@/lib/release-document';
+import { getAnalysisCache } from '@/lib/analysis-cache';
+
+// Node.js runtime: the mock and record LLM providers read and write fixture files
+export const runtime = 'nodejs';
+
+// Upper bound on PRs in one document, to keep a single request's cost predictable
+const MAX_PRS = 50;
+
+// Upper bound on PRs analyzed at once, so one request can't flood the LLM provider
+const MAX_CONCURRENCY = 8;
+
+export async function POST(req: NextRequest) {
+  try {
+    // Parse the request body
+    const {
+      owner: requestedOwner = DEFAULT_OWNER,
+      repo: requestedRepo = DEFAULT_REPO,
+      prIds,
+      page = 1,
+      perPage = 10,
+      concurrency,
+    } = await req.json() as {
+      owner?: string;
+      repo?: string;
+      prIds?: string[];
+      page?: number;
+      perPage?: number;
+      concurrency?: number;
+    };
+
+    if (prIds && (!Array.isArray(prIds) || prIds.some(id => !isValidChangeId(String(id))))) {
+      return new Response(
+        JSON.stringify({ error: 'prIds must be a list of PR numbers or commit ids' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (concurrency !== undefined && (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1)) {
+      return new Response(
+        JSON.stringify({ error: 'concurrency must be a positive integer' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Sources bound to one repository (such as a local checkout) report it
+    const source = getRepositoryDiffSource(requestedOwner, requestedRepo);
+    const { owner, repo } = source.repository ?? { owner: requestedOwner, repo: requestedRepo };
+
+    // Fetch the requested PRs, or the most relevant recently merged ones
+    let prs: PR[];
+    if (prIds) {
+      const uniqueIds = Array.from(new Set(prIds.map(String))).slice(0, MAX_PRS);
+      const fetched = await mapWithConcurrency(uniqueIds, 5, id => source.getChange(owner, repo, id));
+      prs = fetched.filter((pr): pr is PR => pr !== null);
+    } else {
+      const merged = await source.listMerged({ owner, repo, page, perPage: Math.min(perPage, MAX_PRS) * 3 });
+      prs = rankPRs(filterRelevantPRs(merged.prs)).slice(0, Math.min(perPage, MAX_PRS));
+    }
+
+    if (prs.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No pull requests found to summarize' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Initialize the configured LLM provider (see src/lib/llm)
+    const provider = getLLMProvider();
+
+    // Create an SSE encoder stream
+    const encoder = new TextEncoder();
+    let isClosed = false;
+    const abortController = new AbortController();
+
+    const stream = new ReadableStream({
+      async start(controller) {
+
+        // Helper function to safely enqueue data
+        const safeEnqueue = (data: Uint8Array) => {
+          if (!isClosed) {
+            try {
+              controller.enqueue(data);
+            } catch {
+              // Controller is already closed or errored
+              isClosed = true;
+            }
+          }
+        };
+
+        // Helper function to safely close controller
+        const safeClose = () => {
+          if (!isClosed) {
+            try {
+              controller.close();
+              isClosed = true;
+            } catch {
+              // Controller already closed
+              isClosed = true;
+            }
+          }
+        };
+
+        const send = (event: object) => safeEnqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+        try {
+          const document = await runReleaseAnalysis(prs, {
+            owner,
+            repo,
+            provider,
+            cache: getAnalysisCache(),
+            concurrency: concurrency === undefined ? undefined : Math.min(concurrency, MAX_CONCURRENCY),
+            signal: abortController.signal,
+            isClosed: () => isClosed,
+            emit: send,
+          });
+
+          if (!document) {
+            safeClose();
+            return;
+          }
+
+          send({ type: 'document', data: document });
+          send({ type: 'complete' });
+          safeClose();
+        } catch (error) {
+          if (isAbortError(error)) {
+            // Connection was aborted, just close silently
+            safeClose();
+            return;
+          }
+
+          if (process.env.NODE_ENV === 'development') {
+            console.error('Error in release-document stream:', error);
+          }
+          send({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error while generating release notes',
+          });
+          safeClose();
+        }
+      },
+
+      cancel() {
+        // Called when the client disconnects
+        isClosed = true;
+        abortController.abort();
+      }
+    });
+
+    // Return the stream as a response with proper SSE headers
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'Content-Encoding': 'none'
+      }
+    });
+
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Error in release-document route:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Failed to generate release notes'
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,22 +1,20 @@
 import { NextRequest } from 'next/server';
-import { Octokit } from '@octokit/rest';
-import { filterRelevantPRs, rankPRs, type PR } from '@/lib/utils';
-
-// Initialize the GitHub API client with more explicit token handling
-const githubToken = process.env.GITHUB_TOKEN;
-if (process.env.NODE_ENV === 'development') {
-  console.log('GitHub Token available:', !!githubToken); // Log if token exists (without exposing it)
-}
-
-const octokit = new Octokit({
-  auth: githubToken,
-});
+import { filterRelevantPRs, rankPRs } from '@/lib/utils';
+import { DEFAULT_OWNER, DEFAULT_REPO } from '@/lib/github';
+import { getRepositoryDiffSource } from '@/lib/diff-sources';
+import { getChangeFiltersError, hasChangeFilters, readChangeFilters } from '@/lib/diff-sources/filters';
+import { isValidRef } from '@/lib/local-git';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const owner = searchParams.get('owner') || 'openai';
-    const repo = searchParams.get('repo') || 'openai-node';
+
+    const requestedOwner = searchParams.get('owner') || DEFAULT_OWNER;
+    const requestedRepo = searchParams.get('repo') || DEFAULT_REPO;
+
+    // Sources bound to one repository (such as a local checkout) report it
+    const source = getRepositoryDiffSource(requestedOwner, requestedRepo);
+    const { owner, repo } = source.repository ?? { owner: requestedOwner, repo: requestedRepo };
     const pageParam = searchParams.get('page') || '1';
     const page = parseInt(pageParam, 10);
     const perPageParam = searchParams.get('perPage') || '5';
@@ -29,83 +27,60 @@ export async function GET(request: NextRequest) {
         headers: { 'Content-Type': 'application/json' },
       });
     }
+
+    // A base and head ref (tag, branch or SHA) select the changes that landed between them
+    const base = searchParams.get('base');
+    const head = searchParams.get('head');
+
+    if (!base !== !head) {
+      return new Response(JSON.stringify({ error: 'base and head must be given together' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (base && head && (!isValidRef(base) || !isValidRef(head))) {
+      return new Response(JSON.stringify({ error: 'base and head must be tags, branches or commit SHAs' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
     
-    // Fetch closed PRs
-    const { data: closedPrs } = await octokit.pulls.list({
-      owner,
-      repo,
-      state: 'closed',
-      per_page: perPage * 3, // Fetch 3x to give us enough after filtering
-      page,
-    });
-    
-    // Filter for merged PRs
-    const mergedPrs = closedPrs.filter(pr => pr.merged_at);
-    
-    // Process only up to perPage * 3 PRs to have enough after filtering
-    // This gives us a better chance of getting enough relevant PRs
-    const prsToProcess = mergedPrs.slice(0, perPage * 3);
-    
-    // For each PR, fetch its diff
-    const diffsPromises = prsToProcess.map(async (pr) => {
-      try {
-        // Get the diff
-        const { url, number, title, html_url } = pr;
-        
-        // Fetch the raw diff
-        const diffResponse = await fetch(`${url}`, {
-          headers: {
-            Accept: 'application/vnd.github.v3.diff',
-            Authorization: `token ${githubToken}`,
-          },
-        });
-        
-        if (!diffResponse.ok) {
-          // Skip PRs that can't be accessed (rate limits, permissions, etc.)
-          if (process.env.NODE_ENV === 'development') {
-            console.log(`Skipping PR #${number}: ${diffResponse.status} ${diffResponse.statusText}`);
-          }
-          return null;
-        }
-        
-        const diff = await diffResponse.text();
-        
-        return {
-          id: number.toString(),
-          description: title,
-          diff,
-          url: html_url,
-        };
-      } catch (diffError) {
-        if (process.env.NODE_ENV === 'development') {
-          console.error(`Error fetching diff for PR:`, diffError);
-        }
-        return null; // Return null for failed diffs
-      }
-    });
-    
-    // Wait for all diff fetching to complete
-    const diffsWithNulls = await Promise.all(diffsPromises);
-    
-    // Filter out nulls (failed requests) and properly type the result
-    const diffs = diffsWithNulls.filter((diff): diff is PR => diff !== null);
+    // Search filters (merge dates, labels, author, base branch, title text)
+    const filters = readChangeFilters(searchParams);
+    const filtersError = getChangeFiltersError(filters);
+
+    if (filtersError) {
+      return new Response(JSON.stringify({ error: filtersError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const isRange = Boolean(base && head);
+
+    // Sources page exactly, reading on until a page of changes matching the search
+    // filters is found, so each relevant change is returned once and paging only
+    // stops when the source runs out. Sources apply the filters before fetching diffs.
+    const { prs: diffs, hasMore } = base && head
+      ? await source.listRange({ owner, repo, base, head, page, perPage, filters })
+      : await source.listMerged({ owner, repo, page, perPage, filters });
     
     // Apply our deterministic PR filtering
     const relevantPrs = filterRelevantPRs(diffs);
     
     // Rank PRs by importance
-    const rankedPrs = rankPRs(relevantPrs);
-    
-    // Return only up to requested perPage number of PRs
-    const finalPrs = rankedPrs.slice(0, perPage);
+    const finalPrs = rankPRs(relevantPrs);
     
     return new Response(JSON.stringify({
       owner,
       repo,
       page,
       perPage,
+      ...(isRange ? { base, head } : {}),
+      ...(hasChangeFilters(filters) ? { filters } : {}),
       diffs: finalPrs,
-      hasMore: finalPrs.length === perPage, // If we got the full perPage results, assume there might be more
+      hasMore,
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
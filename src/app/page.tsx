@@ -1,20 +1,51 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import DiffAnalyzer from "@/components/DiffAnalyzer";
+import { DiffStatsBadge, ChangedFilesList } from "@/components/ui/DiffSummary";
+import ReleaseDocumentPanel from "@/components/ReleaseDocumentPanel";
+import AnalysisQueuePanel from "@/components/AnalysisQueuePanel";
+import ChangelogExport from "@/components/ChangelogExport";
+import RangeSelector, { type ReleaseRange } from "@/components/RangeSelector";
+import PRFilters from "@/components/PRFilters";
+import { CategoryBadge, categoryConfig } from "@/components/ui/CategoryBadge";
+import { readPersistedAnalysis } from "@/hooks/usePersistedAnalysis";
+import { resolveCategory } from "@/lib/categorize";
+import { RELEASE_SECTIONS } from "@/lib/release-sections";
+import type { ChangeCategory, ReleaseNotes } from "@/types/diff-analyzer";
+import type { ChangeFilters } from "@/types/change-filters";
 
 interface Diff {
   id: string;
   description: string;
   diff: string;
   url: string;
+  labels?: string[];
 }
 
 interface ApiResponse {
+  owner: string;
+  repo: string;
   diffs: Diff[];
   hasMore: boolean;
 }
 
+/**
+ * Builds the sample-diffs URL for a page of recent PRs, or of the PRs in a range,
+ * narrowed by the search filters
+ */
+const getDiffsUrl = (page: number, range: ReleaseRange | null, filters: ChangeFilters): string => {
+  const params = new URLSearchParams({ page: String(page) });
+  if (range) {
+    params.set('base', range.base);
+    params.set('head', range.head);
+  }
+  for (const [name, value] of Object.entries(filters)) {
+    params.set(name, Array.isArray(value) ? value.join(',') : value);
+  }
+  return `/api/sample-diffs?${params}`;
+};
+
 export default function Home() {
   const [diffs, setDiffs] = useState<Diff[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
@@ -30,6 +61,38 @@ export default function Home() {
     return 1;
   });
   const [hasMore, setHasMore] = useState<boolean>(true);
+  const [range, setRange] = useState<ReleaseRange | null>(() => {
+    // Load the selected range from localStorage
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem('releaseRange');
+      if (saved) {
+        try {
+          return JSON.parse(saved);
+        } catch {
+          return null;
+        }
+      }
+    }
+    return null;
+  });
+  const [filters, setFilters] = useState<ChangeFilters>(() => {
+    // Load the search filters from localStorage
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem('prFilters');
+      if (saved) {
+        try {
+          return JSON.parse(saved);
+        } catch {
+          return {};
+        }
+      }
+    }
+    return {};
+  });
+  const [repository, setRepository] = useState<{ owner: string; repo: string } | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<ChangeCategory | 'all'>('all');
+  // Notes from analyses finished during this visit, which may refine a PR's category
+  const [analyzedNotes, setAnalyzedNotes] = useState<Record<string, ReleaseNotes>>({});
   // State to track which cards are expanded (by default, expand none)
   const [expandedCards, setExpandedCards] = useState<Record<string, boolean>>(() => {
     // Load expanded state from localStorage
@@ -57,11 +120,12 @@ export default function Home() {
         
         for (let page = 1; page <= savedPage; page++) {
           try {
-            const response = await fetch(`/api/sample-diffs?page=${page}`);
+            const response = await fetch(getDiffsUrl(page, range, filters));
             if (response.ok) {
               const data = await response.json();
               allDiffs.push(...data.diffs);
               setHasMore(data.hasMore);
+              setRepository({ owner: data.owner, repo: data.repo });
             }
           } catch (err) {
             console.error(`Failed to fetch page ${page}:`, err);
@@ -94,15 +158,40 @@ export default function Home() {
     }
   }, [currentPage]);
 
-  const fetchDiffs = async (page: number) => {
+  // Save the selected range to localStorage
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      if (range) {
+        localStorage.setItem('releaseRange', JSON.stringify(range));
+      } else {
+        localStorage.removeItem('releaseRange');
+      }
+    }
+  }, [range]);
+
+  // Save the search filters to localStorage
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('prFilters', JSON.stringify(filters));
+    }
+  }, [filters]);
+
+  const fetchDiffs = async (
+    page: number,
+    selectedRange: ReleaseRange | null = range,
+    selectedFilters: ChangeFilters = filters
+  ) => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/sample-diffs?page=${page}&per_page=10`);
+      const response = await fetch(`${getDiffsUrl(page, selectedRange, selectedFilters)}&per_page=10`);
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch diffs: ${response.status}`);
+        // Show why, e.g. a ref that doesn't exist in the repository
+        const body = await response.json().catch(() => null);
+        const reason = body?.details ?? body?.error;
+        throw new Error(`Failed to fetch diffs: ${response.status}${reason ? ` (${reason})` : ''}`);
       }
 
       const data: ApiResponse = await response.json();
@@ -111,6 +200,7 @@ export default function Home() {
         page === 1 ? data.diffs : [...prevDiffs, ...data.diffs]
       );
       setHasMore(data.hasMore);
+      setRepository({ owner: data.owner, repo: data.repo });
       setCurrentPage(page);
     } catch (err) {
       if (process.env.NODE_ENV === 'development') {
@@ -122,12 +212,45 @@ export default function Home() {
     }
   };
 
+  // Categorize each PR from its notes when analyzed, otherwise from its title and labels
+  const categorized = useMemo(() => diffs.map(diff => {
+    const notes = analyzedNotes[diff.id] ?? readPersistedAnalysis(diff.id)?.notes;
+    const { category, scope } = notes?.category
+      ? { category: notes.category, scope: notes.scope }
+      : resolveCategory({ title: diff.description, labels: diff.labels });
+    return { diff, category, scope };
+  }), [diffs, analyzedNotes]);
+
+  // Group the filtered PRs by category, in release-notes order
+  const groups = RELEASE_SECTIONS
+    .map(section => ({
+      ...section,
+      entries: categorized.filter(entry =>
+        entry.category === section.id && (categoryFilter === 'all' || categoryFilter === section.id)
+      ),
+    }))
+    .filter(group => group.entries.length > 0);
+
   const loadMore = () => {
     if (hasMore && !loading) {
       fetchDiffs(currentPage + 1);
     }
   };
 
+  // Start over from the first page of the new range (or of recent PRs)
+  const changeRange = (nextRange: ReleaseRange | null) => {
+    setRange(nextRange);
+    setDiffs([]);
+    fetchDiffs(1, nextRange);
+  };
+
+  // Start over from the first page of the PRs matching the new filters
+  const changeFilters = (nextFilters: ChangeFilters) => {
+    setFilters(nextFilters);
+    setDiffs([]);
+    fetchDiffs(1, range, nextFilters);
+  };
+
   return (
     <main className="min-h-screen p-4 md:p-8">
       {/* Header */}
@@ -138,6 +261,10 @@ export default function Home() {
         </p>
       </div>
 
+      <RangeSelector range={range} onChange={changeRange} disabled={loading} />
+
+      <PRFilters filters={filters} onChange={changeFilters} disabled={loading} />
+
       {/* Main content */}
       {loading && diffs.length === 0 ? (
         <div className="flex justify-center items-center py-20">
@@ -171,89 +298,150 @@ export default function Home() {
         </div>
       ) : (
         <div className="max-w-4xl mx-auto">
-          <div className="space-y-8">
-            {diffs.map((diff, index) => (
-              <div 
-                key={diff.id} 
-                className="border border-gray-200 dark:border-gray-800 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-all duration-300 animate-fadeIn" 
-                style={{ animationDelay: `${index * 100}ms` }}
-              >
-                {/* Card Header - Always visible and clickable */}
-                <div 
-                  className="p-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 cursor-pointer"
-                  onClick={() => setExpandedCards(prev => ({
-                    ...prev,
-                    [diff.id]: !prev[diff.id]
-                  }))}
+          <ReleaseDocumentPanel
+            prIds={diffs.map(diff => diff.id)}
+            owner={repository?.owner}
+            repo={repository?.repo}
+          />
+
+          <AnalysisQueuePanel
+            prIds={diffs.map(diff => diff.id)}
+            owner={repository?.owner}
+            repo={repository?.repo}
+          />
+
+          <ChangelogExport
+            prs={diffs}
+            repository={repository ? `${repository.owner}/${repository.repo}` : undefined}
+          />
+
+          {/* Category filter */}
+          <div className="flex flex-wrap gap-2 mb-6">
+            {(['all', ...RELEASE_SECTIONS.map(section => section.id)] as const).map(id => {
+              const count = id === 'all' ? categorized.length : categorized.filter(entry => entry.category === id).length;
+              if (count === 0) return null;
+              return (
+                <button
+                  key={id}
+                  onClick={() => setCategoryFilter(id)}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                    categoryFilter === id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
                 >
-                  <div className="flex justify-between items-center">
-                    <div className="flex-grow">
-                      <div className="flex items-center justify-between">
-                        <h3 className="text-xl font-medium">
-                          <span className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
-                            {diff.description}
-                          </span>
-                        </h3>
-                        <button 
-                          className="ml-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 focus:outline-none"
-                          aria-label={expandedCards[diff.id] ? "Collapse card" : "Expand card"}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setExpandedCards(prev => ({
-                              ...prev,
-                              [diff.id]: !prev[diff.id]
-                            }));
-                          }}
-                        >
-                          {expandedCards[diff.id] ? (
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                            </svg>
-                          ) : (
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                            </svg>
-                          )}
-                        </button>
-                      </div>
-                      <div className="flex items-center mt-1">
-                        <span className="flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200">
-                          <svg className="h-3 w-3 mr-1" fill="currentColor" viewBox="0 0 16 16">
-                            <path d="M7.177 3.073L9.573.677A.25.25 0 0110 .854v4.792a.25.25 0 01-.427.177L7.177 3.427a.25.25 0 010-.354zM3.75 2.5a.75.75 0 100 1.5.75.75 0 000-1.5zm-2.25.75a2.25 2.25 0 113 2.122v5.256a2.251 2.251 0 11-1.5 0V5.372A2.25 2.25 0 011.5 3.25zM11 2.5h-1V4h1a1 1 0 011 1v5.628a2.251 2.251 0 101.5 0V5A2.5 2.5 0 0011 2.5zm1 10.25a.75.75 0 111.5 0 .75.75 0 01-1.5 0zM3.75 12a.75.75 0 100 1.5.75.75 0 000-1.5z"/>
-                          </svg>
-                          PR #{diff.id}
-                        </span>
+                  {id === 'all' ? 'All' : categoryConfig[id].label} ({count})
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="space-y-10">
+            {groups.map(group => (
+              <section key={group.id}>
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-4">
+                  {group.title}
+                </h2>
+                <div className="space-y-8">
+                  {group.entries.map(({ diff, category, scope }, index) => (
+                    <div 
+                      key={diff.id} 
+                      className="border border-gray-200 dark:border-gray-800 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-all duration-300 animate-fadeIn" 
+                      style={{ animationDelay: `${index * 100}ms` }}
+                    >
+                      {/* Card Header - Always visible and clickable */}
+                      <div 
+                        className="p-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 cursor-pointer"
+                        onClick={() => setExpandedCards(prev => ({
+                          ...prev,
+                          [diff.id]: !prev[diff.id]
+                        }))}
+                      >
+                        <div className="flex justify-between items-center">
+                          <div className="flex-grow">
+                            <div className="flex items-center justify-between">
+                              <h3 className="text-xl font-medium">
+                                <span className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                                  {diff.description}
+                                </span>
+                              </h3>
+                              <button 
+                                className="ml-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 focus:outline-none"
+                                aria-label={expandedCards[diff.id] ? "Collapse card" : "Expand card"}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setExpandedCards(prev => ({
+                                    ...prev,
+                                    [diff.id]: !prev[diff.id]
+                                  }));
+                                }}
+                              >
+                                {expandedCards[diff.id] ? (
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                                  </svg>
+                                ) : (
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                  </svg>
+                                )}
+                              </button>
+                            </div>
+                            <div className="flex items-center mt-1">
+                              <span className="flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200">
+                                <svg className="h-3 w-3 mr-1" fill="currentColor" viewBox="0 0 16 16">
+                                  <path d="M7.177 3.073L9.573.677A.25.25 0 0110 .854v4.792a.25.25 0 01-.427.177L7.177 3.427a.25.25 0 010-.354zM3.75 2.5a.75.75 0 100 1.5.75.75 0 000-1.5zm-2.25.75a2.25 2.25 0 113 2.122v5.256a2.251 2.251 0 11-1.5 0V5.372A2.25 2.25 0 011.5 3.25zM11 2.5h-1V4h1a1 1 0 011 1v5.628a2.251 2.251 0 101.5 0V5A2.5 2.5 0 0011 2.5zm1 10.25a.75.75 0 111.5 0 .75.75 0 01-1.5 0zM3.75 12a.75.75 0 100 1.5.75.75 0 000-1.5z"/>
+                                </svg>
+                                PR #{diff.id}
+                              </span>
+
+                              <CategoryBadge category={category} scope={scope} className="ml-2" />
                         
-                        <a
-                          href={diff.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="ml-3 text-blue-600 dark:text-blue-400 hover:underline flex items-center text-sm"
-                          onClick={(e) => e.stopPropagation()}
-                        >
-                          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                          </svg>
-                          GitHub
-                        </a>
+                              <a
+                                href={diff.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="ml-3 text-blue-600 dark:text-blue-400 hover:underline flex items-center text-sm"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                                </svg>
+                                GitHub
+                              </a>
+
+                              <DiffStatsBadge diff={diff.diff} className="ml-3" />
+                            </div>
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                </div>
 
-                {/* Collapsible Content - Always rendered but hidden when collapsed */}
-                <div 
-                  className={`bg-white dark:bg-gray-900 transition-all duration-300 overflow-hidden ${
-                    expandedCards[diff.id] ? 'p-5' : 'h-0'
-                  }`}
-                >
-                  <DiffAnalyzer
-                    diffId={diff.id}
-                    diffContent={diff.diff}
-                    description={diff.description}
-                  />
+                      {/* Collapsible Content - Always rendered but hidden when collapsed */}
+                      <div 
+                        className={`bg-white dark:bg-gray-900 transition-all duration-300 overflow-hidden ${
+                          expandedCards[diff.id] ? 'p-5' : 'h-0'
+                        }`}
+                      >
+                        <details className="mb-4">
+                          <summary className="text-sm text-gray-500 dark:text-gray-400 cursor-pointer">
+                            Changed files
+                          </summary>
+                          <ChangedFilesList diff={diff.diff} className="mt-2" />
+                        </details>
+                        <DiffAnalyzer
+                          diffId={diff.id}
+                          diffContent={diff.diff}
+                          description={diff.description}
+                          labels={diff.labels}
+                          owner={repository?.owner}
+                          repo={repository?.repo}
+                          onNotesChange={(notes) => setAnalyzedNotes(prev => ({ ...prev, [diff.id]: notes }))}
+                        />
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              </div>
+              </section>
             ))}
           </div>
 
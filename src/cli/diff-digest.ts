@@ -0,0 +1,230 @@
+/**
+ * diff-digest: generates release notes from a patch on the command line.
+ *
+ * Reads a patch from stdin, a `.patch` file or a `base..head` range of a local
+ * checkout, and runs it through the same relevance filter, prompt, validation
+ * and grounding as `/api/analyze-diff`. The LLM provider and cache are
+ * configured with the same environment variables as the server.
+ *
+ * Exits with 0 when notes were written or the change was skipped as not
+ * relevant, 1 when the analysis failed, and 2 on invalid arguments.
+ */
+
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { runAnalysis } from '@/lib/analysis';
+import { getAnalysisCache } from '@/lib/analysis-cache';
+import { getLLMProvider } from '@/lib/llm';
+import { getPromptTemplate } from '@/lib/prompt-registry';
+import { AUDIENCES, getNote } from '@/lib/audiences';
+import { filterRelevantPRs, type PR } from '@/lib/utils';
+import { getRangeDiff, getRangeSubjects, parseRange } from '@/lib/local-git';
+import type { ReleaseNotes, RetryInfo, TruncationSummary } from '@/types/diff-analyzer';
+
+type OutputFormat = 'text' | 'markdown' | 'json';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'markdown', 'json'];
+
+// Commit subjects joined into the title of a multi-commit range
+const MAX_TITLE_SUBJECTS = 10;
+
+const USAGE = `Usage: diff-digest [options] [<file.patch> | <base>..<head> | -]
+
+Generates release notes for a patch read from stdin (the default, or "-"),
+a patch file, or a range of commits in a local git checkout.
+
+Options:
+  -t, --title <text>     PR title (default: the patch's Subject or the range's commit subjects)
+  -f, --format <format>  text (default), markdown or json
+  -C, --repo <path>      Git checkout for a range (default: the current directory)
+  -p, --prompt <id>      Prompt template, as <id> or <id>@<version>
+      --all              Analyze even if the relevance filter would skip the change
+      --force            Skip the analysis cache
+  -q, --quiet            Don't report progress on stderr
+  -h, --help             Show this help
+`;
+
+class UsageError extends Error {}
+
+interface Input {
+  diff: string;
+  title: string;
+  source: string;
+}
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/**
+ * Takes the title from a `git format-patch` Subject header, if there is one
+ */
+const getPatchSubject = (patch: string): string => {
+  const match = patch.match(/^Subject: (?:\[[^\]]*\]\s*)?(.+)$/m);
+  return match ? match[1].trim() : '';
+};
+
+/**
+ * Reads the diff and a title from the positional argument
+ */
+const readInput = async (target: string | undefined, repoPath: string): Promise<Input> => {
+  if (!target || target === '-') {
+    if (process.stdin.isTTY) {
+      throw new UsageError('No patch given: pipe one on stdin, or pass a patch file or a <base>..<head> range');
+    }
+    const diff = await readStdin();
+    return { diff, title: getPatchSubject(diff), source: 'stdin' };
+  }
+
+  const range = parseRange(target);
+  const isFile = await fs.stat(target).then(stats => stats.isFile(), () => false);
+
+  if (range && !isFile) {
+    const [diff, subjects] = await Promise.all([
+      getRangeDiff(repoPath, range.base, range.head),
+      getRangeSubjects(repoPath, range.base, range.head),
+    ]);
+    const title = subjects.length > MAX_TITLE_SUBJECTS
+      ? [...subjects.slice(0, MAX_TITLE_SUBJECTS), `and ${subjects.length - MAX_TITLE_SUBJECTS} more`].join('; ')
+      : subjects.join('; ');
+    return { diff, title, source: target };
+  }
+
+  if (!isFile) {
+    throw new UsageError(`${target} is neither a patch file nor a <base>..<head> range`);
+  }
+
+  const diff = await fs.readFile(target, 'utf8');
+  return { diff, title: getPatchSubject(diff), source: target };
+};
+
+const stripMarkdown = (text: string): string => text.replace(/\*\*([^*]+)\*\*/g, '$1').replace(/`([^`]+)`/g, '$1');
+
+/**
+ * Renders the notes for stdout
+ */
+const formatNotes = (notes: ReleaseNotes, format: OutputFormat, { title, source }: Input, model: string): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({
+        title,
+        source,
+        model,
+        category: notes.category ?? null,
+        scope: notes.scope ?? null,
+        notes: notes.audiences,
+        unsupportedClaims: notes.unsupportedClaims ?? [],
+        apiChanges: notes.apiChanges ?? [],
+      }, null, 2) + '\n';
+
+    case 'markdown':
+      return [
+        `## ${title || source}`,
+        '',
+        ...AUDIENCES.map(audience => `- **${audience.name}:** ${getNote(notes, audience.id)}`),
+      ].join('\n') + '\n';
+
+    case 'text':
+    default:
+      return AUDIENCES.map(audience => `${audience.name}:\n  ${stripMarkdown(getNote(notes, audience.id))}`).join('\n\n') + '\n';
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      title: { type: 'string', short: 't' },
+      format: { type: 'string', short: 'f', default: 'text' },
+      repo: { type: 'string', short: 'C', default: '.' },
+      prompt: { type: 'string', short: 'p' },
+      all: { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`Unknown format "${values.format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (values.prompt && !getPromptTemplate(values.prompt)) {
+    throw new UsageError(`Unknown prompt template: ${values.prompt}`);
+  }
+  if (positionals.length > 1) {
+    throw new UsageError('Pass at most one patch file or range');
+  }
+
+  const log = (message: string) => {
+    if (!values.quiet) process.stderr.write(`${message}\n`);
+  };
+
+  const input = await readInput(positionals[0], values.repo);
+  if (values.title) input.title = values.title;
+
+  if (!input.diff.trim()) {
+    log(`No changes in ${input.source}.`);
+    return 0;
+  }
+
+  // Apply the same relevance filter as the PR list
+  const pr: PR = { id: 'cli', description: input.title, diff: input.diff, url: '' };
+  if (!values.all && filterRelevantPRs([pr]).length === 0) {
+    log('Skipped: the change is not relevant for release notes (pass --all to analyze it anyway).');
+    return 0;
+  }
+
+  const provider = getLLMProvider();
+  const outcome = await runAnalysis(
+    { diffContent: input.diff, description: input.title, force: values.force, skipRelevance: values.all, promptId: values.prompt },
+    {
+      provider,
+      cache: getAnalysisCache(),
+      signal: new AbortController().signal,
+      emit: event => {
+        if (event.type === 'start') {
+          log(`Analyzing ${input.source} with ${provider.defaultModel}...`);
+        } else if (event.type === 'truncation') {
+          const { omittedFiles, partialFiles } = event.data as TruncationSummary;
+          log(`Diff truncated to fit the model: ${omittedFiles.length} file(s) omitted, ${partialFiles.length} partially included.`);
+        } else if (event.type === 'retry') {
+          const { attempt, maxAttempts, reason = 'validation' } = event.data as RetryInfo;
+          log(`Retrying (${reason}), attempt ${attempt} of ${maxAttempts}...`);
+        }
+      },
+    }
+  );
+
+  if (outcome.status === 'skipped') {
+    log(`Skipped: ${outcome.message}`);
+    return 0;
+  }
+  if (outcome.status === 'aborted') {
+    process.stderr.write('Analysis was aborted\n');
+    return 1;
+  }
+
+  process.stdout.write(formatNotes(outcome.notes, format, input, outcome.model));
+  return 0;
+};
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    const usage = error instanceof UsageError || (error instanceof TypeError && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS'));
+    process.stderr.write(`diff-digest: ${error instanceof Error ? error.message : String(error)}\n`);
+    if (usage) process.stderr.write(`\n${USAGE}`);
+    process.exitCode = usage ? 2 : 1;
+  });
@@ -0,0 +1,88 @@
+/**
+ * Panel that queues background analyses for the loaded PRs and shows their progress
+ */
+
+import React from 'react';
+import { useAnalysisJobs } from '@/hooks/useAnalysisJobs';
+import StatusCard from './ui/StatusCard';
+import type { AnalysisJobStatus } from '@/types/analysis-jobs';
+
+interface AnalysisQueuePanelProps {
+  prIds: string[];
+  owner?: string;
+  repo?: string;
+}
+
+const statusStyles: Record<AnalysisJobStatus, string> = {
+  queued: 'text-gray-500 dark:text-gray-400',
+  running: 'text-blue-600 dark:text-blue-400',
+  succeeded: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  cancelled: 'text-gray-400 dark:text-gray-500',
+};
+
+export const AnalysisQueuePanel: React.FC<AnalysisQueuePanelProps> = ({ prIds, owner, repo }) => {
+  const { jobs, queueing, error, queue, cancel, refresh } = useAnalysisJobs({ owner, repo });
+
+  // Only the jobs for PRs on this page
+  const pageJobs = jobs.filter(job => job.diffId && prIds.includes(job.diffId));
+  const counts = pageJobs.reduce<Partial<Record<AnalysisJobStatus, number>>>((acc, job) => {
+    acc[job.status] = (acc[job.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="mb-8 p-5 border border-gray-200 dark:border-gray-800 rounded-xl bg-white dark:bg-gray-900 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Background analysis</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Analyze the {prIds.length} loaded PR(s) on the server; notes appear when you open a PR
+          </p>
+        </div>
+        <button
+          onClick={() => queue(prIds)}
+          disabled={queueing || prIds.length === 0}
+          className="px-4 py-2 text-sm rounded-lg bg-gradient-to-r from-blue-500 to-indigo-600 text-white hover:from-blue-600 hover:to-indigo-700 disabled:opacity-50 transition-all duration-300 shadow-sm font-medium"
+        >
+          {queueing ? 'Queueing...' : 'Queue analyses'}
+        </button>
+      </div>
+
+      {error && (
+        <StatusCard type="error" title="Background analysis failed" message={error} onRetry={refresh} />
+      )}
+
+      {pageJobs.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {(Object.keys(counts) as AnalysisJobStatus[]).map(status => `${counts[status]} ${status}`).join(', ')}
+          </p>
+          <ul className="mt-2 ml-2 text-xs space-y-0.5">
+            {pageJobs.map(job => (
+              <li key={job.id} className="flex items-center">
+                <span className="text-gray-600 dark:text-gray-300">#{job.diffId}</span>
+                <span className={`ml-2 ${statusStyles[job.status]}`}>
+                  {job.status}{job.cached ? ' (cached)' : ''}
+                </span>
+                {job.message && (
+                  <span className="ml-2 text-gray-400 truncate">{job.message}</span>
+                )}
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button
+                    onClick={() => cancel(job.id)}
+                    className="ml-auto px-2 py-0.5 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisQueuePanel;
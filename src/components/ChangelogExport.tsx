@@ -0,0 +1,124 @@
+/**
+ * Exports the saved notes for selected PRs as a changelog file
+ */
+
+import React, { useState } from 'react';
+import { readPersistedAnalysis } from '@/hooks/usePersistedAnalysis';
+import { CHANGELOG_FORMATS, renderChangelog, type ChangelogEntry, type ChangelogFormat } from '@/lib/changelog';
+
+interface ChangelogExportProps {
+  prs: { id: string; description: string; url: string }[];
+  repository?: string;
+}
+
+/**
+ * Collects the PRs that have completed notes saved in this browser
+ */
+const loadEntries = (prs: ChangelogExportProps['prs']): ChangelogEntry[] => {
+  return prs.flatMap(pr => {
+    const saved = readPersistedAnalysis(pr.id);
+    if (!saved?.notes || !saved.isComplete) return [];
+    return [{
+      id: pr.id,
+      title: pr.description,
+      url: pr.url,
+      notes: saved.notes,
+      model: saved.model,
+      timestamp: saved.timestamp,
+    }];
+  });
+};
+
+const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ChangelogExport: React.FC<ChangelogExportProps> = ({ prs, repository }) => {
+  const [entries, setEntries] = useState<ChangelogEntry[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [format, setFormat] = useState<ChangelogFormat>('keep-a-changelog');
+  const [version, setVersion] = useState('');
+
+  // Notes are saved as analyses finish, so re-read them each time the panel opens
+  const handleToggle = (event: React.SyntheticEvent<HTMLDetailsElement>) => {
+    if (event.currentTarget.open) {
+      const loaded = loadEntries(prs);
+      setEntries(loaded);
+      setSelected(Object.fromEntries(loaded.map(entry => [entry.id, true])));
+    }
+  };
+
+  const chosen = entries.filter(entry => selected[entry.id]);
+
+  const handleDownload = () => {
+    const file = renderChangelog(chosen, format, { version: version.trim() || undefined, repository });
+    downloadFile(file.content, file.filename, file.mimeType);
+  };
+
+  return (
+    <details
+      onToggle={handleToggle}
+      className="mb-8 p-5 border border-gray-200 dark:border-gray-800 rounded-xl bg-white dark:bg-gray-900 shadow-sm"
+    >
+      <summary className="cursor-pointer text-lg font-semibold">Export changelog</summary>
+
+      {entries.length === 0 ? (
+        <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+          No generated notes yet. Expand a PR to analyze it, then come back to export.
+        </p>
+      ) : (
+        <div className="mt-4 space-y-4">
+          <ul className="space-y-1 text-sm">
+            {entries.map(entry => (
+              <li key={entry.id}>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={!!selected[entry.id]}
+                    onChange={(e) => setSelected(prev => ({ ...prev, [entry.id]: e.target.checked }))}
+                  />
+                  <span className="text-gray-500 dark:text-gray-400 mr-1">#{entry.id}</span>
+                  {entry.title}
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ChangelogFormat)}
+              className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+            >
+              {CHANGELOG_FORMATS.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={version}
+              onChange={(e) => setVersion(e.target.value)}
+              placeholder="Version (optional)"
+              className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+            />
+            <button
+              onClick={handleDownload}
+              disabled={chosen.length === 0}
+              className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 to-indigo-600 text-white hover:from-blue-600 hover:to-indigo-700 disabled:opacity-50 transition-all duration-300 shadow-sm font-medium"
+            >
+              Download {chosen.length} PR(s)
+            </button>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default ChangelogExport;
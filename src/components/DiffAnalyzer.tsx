@@ -7,32 +7,81 @@
 
 'use client';
 
-import { useEffect } from 'react';
-import { useDiffAnalysis } from '@/hooks/useDiffAnalysis';
+import { useCallback, useEffect, useRef } from 'react';
+import { useDiffAnalysis, hasResumableAnalysis } from '@/hooks/useDiffAnalysis';
 import { usePersistedAnalysis } from '@/hooks/usePersistedAnalysis';
 import { StatusCard } from '@/components/ui/StatusCard';
 import { NotesDisplay } from '@/components/ui/NotesCard';
-import type { DiffAnalyzerProps } from '@/types/diff-analyzer';
+import { TruncationNotice } from '@/components/ui/TruncationNotice';
+import { FileCoverage } from '@/components/ui/FileCoverage';
+import { BreakingChanges } from '@/components/ui/BreakingChanges';
+import { MigrationGuide } from '@/components/ui/MigrationGuide';
+import { useMigrationGuide } from '@/hooks/useMigrationGuide';
+import { PRIMARY_AUDIENCE, getNote } from '@/lib/audiences';
+import type { DiffAnalyzerProps, PromptRef, ReleaseNotes } from '@/types/diff-analyzer';
 
 /**
  * Main DiffAnalyzer component that provides a clean interface for analyzing
  * git diffs and displaying the generated release notes.
  */
-export default function DiffAnalyzer({ diffId, diffContent, description }: DiffAnalyzerProps) {
-  const { persistedState, saveState } = usePersistedAnalysis(diffId);
+export default function DiffAnalyzer({ diffId, diffContent, description, labels, owner, repo, onNotesChange }: DiffAnalyzerProps) {
+  const { persistedState, saveState, isLoaded } = usePersistedAnalysis(diffId, { owner, repo, diffContent });
+
+  // Held in a ref so an inline callback from the parent doesn't restart the analysis
+  const onNotesChangeRef = useRef(onNotesChange);
+  onNotesChangeRef.current = onNotesChange;
+
+  // Persist notes as they arrive and report the final ones to the page
+  const handleNotesUpdate = useCallback((notes: ReleaseNotes | null, isComplete: boolean, model?: string, prompt?: PromptRef) => {
+    saveState(notes, isComplete, model, prompt);
+    if (notes && isComplete) {
+      onNotesChangeRef.current?.(notes);
+    }
+  }, [saveState]);
   
   const {
     loading,
     error,
     notes,
+    partialNotes,
     streamProgress,
     messageInfo,
+    truncation,
+    mapReduce,
+    fileCoverage,
+    retry,
+    apiChanges,
+    cached,
     analyzeDiff,
     resetState,
-  } = useDiffAnalysis({ diffId, diffContent, description, onNotesUpdate: saveState });
+  } = useDiffAnalysis({ diffId, diffContent, description, labels, owner, repo, onNotesUpdate: handleNotesUpdate });
+
+  // Save the migration guide next to the notes it was written for
+  const currentNotes = notes || persistedState?.notes;
+  const handleGuideComplete = useCallback((guide: string) => {
+    if (currentNotes) {
+      saveState({ ...currentNotes, migrationGuide: guide }, true, persistedState?.model, persistedState?.prompt);
+    }
+  }, [currentNotes, persistedState?.model, persistedState?.prompt, saveState]);
+
+  const migration = useMigrationGuide({
+    diffId,
+    diffContent,
+    description,
+    releaseNote: currentNotes ? getNote(currentNotes, PRIMARY_AUDIENCE) : undefined,
+    onComplete: handleGuideComplete,
+  });
 
   // Auto-analyze when diffId changes
+  const autoStartedRef = useRef<string | null>(null);
   useEffect(() => {
+    // Wait until stored notes have been checked so they aren't generated again,
+    // and only decide once per diff; saving notes mid-stream must not restart it
+    if (!isLoaded || autoStartedRef.current === diffId) {
+      return;
+    }
+    autoStartedRef.current = diffId;
+
     // If we have complete persisted notes, don't re-analyze
     if (persistedState?.notes && persistedState.isComplete) {
       // Restore the saved notes instead of re-analyzing
@@ -41,11 +90,11 @@ export default function DiffAnalyzer({ diffId, diffContent, description }: DiffA
     
     resetState();
     
-    // Only analyze if we don't have persisted notes
-    if (diffContent && !persistedState?.notes) {
+    // Analyze if we don't have persisted notes, or resume a stream interrupted by a refresh
+    if (diffContent && (!persistedState?.notes || hasResumableAnalysis(diffId))) {
       analyzeDiff();
     }
-  }, [diffId, diffContent, analyzeDiff, resetState, persistedState]);
+  }, [diffId, diffContent, analyzeDiff, resetState, persistedState, isLoaded]);
 
   // Handle info message state
   if (messageInfo) {
@@ -56,7 +105,8 @@ export default function DiffAnalyzer({ diffId, diffContent, description }: DiffA
         message={messageInfo}
         onAction={() => {
           resetState();
-          analyzeDiff();
+          // The relevance filter skipped this PR; analyze it anyway
+          analyzeDiff({ skipRelevance: true });
         }}
         actionLabel="Force Analysis"
       />
@@ -70,7 +120,7 @@ export default function DiffAnalyzer({ diffId, diffContent, description }: DiffA
         type="error"
         title="Error analyzing diff"
         message={error}
-        onRetry={analyzeDiff}
+        onRetry={() => analyzeDiff()}
         actionLabel="Retry Analysis"
       />
     );
@@ -78,39 +128,90 @@ export default function DiffAnalyzer({ diffId, diffContent, description }: DiffA
 
   // Handle loading state
   if (loading) {
+    const hasLiveNotes = Boolean(notes || Object.values(partialNotes.audiences).some(Boolean));
+
     return (
       <StatusCard
         type="loading"
         title="Analyzing pull request..."
         message="Processing your diff and generating release notes"
       >
-        {streamProgress && (
-          <div className="mt-4 p-3 bg-white dark:bg-gray-800 rounded border border-blue-200 dark:border-blue-900">
-            <div className="flex items-center mb-2">
-              <svg className="w-4 h-4 mr-2 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-              </svg>
-              <span className="text-xs text-blue-600 dark:text-blue-400 font-medium">Processing</span>
+        {retry && (
+          <p className="mt-4 text-xs text-yellow-700 dark:text-yellow-400">
+            {retry.reason === 'grounding'
+              ? `Notes made claims not found in the diff (${retry.errors.join('; ')}). Regenerating with a stricter prompt…`
+              : `Output failed validation (${retry.errors.join('; ')}). Retrying, attempt ${retry.attempt} of ${retry.maxAttempts}…`}
+          </p>
+        )}
+        {mapReduce && (
+          <FileCoverage progress={mapReduce} files={fileCoverage} className="mt-4" />
+        )}
+        {truncation && <TruncationNotice summary={truncation} className="mt-4" />}
+        <BreakingChanges changes={apiChanges} className="mt-4" />
+        {hasLiveNotes ? (
+          // Fill the cards as field text streams in
+          <NotesDisplay notes={notes || partialNotes} streaming={!notes} className="mt-4" />
+        ) : (
+          <>
+            {streamProgress && (
+              <div className="mt-4 p-3 bg-white dark:bg-gray-800 rounded border border-blue-200 dark:border-blue-900">
+                <div className="flex items-center mb-2">
+                  <svg className="w-4 h-4 mr-2 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
+                  <span className="text-xs text-blue-600 dark:text-blue-400 font-medium">Processing</span>
+                </div>
+                <p className="text-sm font-mono text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                  {streamProgress}
+                </p>
+              </div>
+            )}
+            <div className="mt-4 grid grid-cols-2 gap-4">
+              <div className="h-16 bg-white dark:bg-gray-800 rounded-md animate-pulse opacity-70" />
+              <div className="h-16 bg-white dark:bg-gray-800 rounded-md animate-pulse opacity-70" />
             </div>
-            <p className="text-sm font-mono text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
-              {streamProgress}
-            </p>
-          </div>
+          </>
         )}
-        <div className="mt-4 grid grid-cols-2 gap-4">
-          <div className="h-16 bg-white dark:bg-gray-800 rounded-md animate-pulse opacity-70" />
-          <div className="h-16 bg-white dark:bg-gray-800 rounded-md animate-pulse opacity-70" />
-        </div>
       </StatusCard>
     );
   }
 
   // Handle success state with notes (either from current analysis or persisted)
-  const displayNotes = notes || persistedState?.notes;
+  const displayNotes = currentNotes;
   if (displayNotes) {
+    const breakingChanges = displayNotes.apiChanges ?? apiChanges;
+    const isBreaking = displayNotes.category === 'breaking' || breakingChanges.length > 0;
+    const guide = migration.loading ? migration.guide : migration.guide || displayNotes.migrationGuide;
+
     return (
       <div className="space-y-6 transition-all duration-300">
+        <BreakingChanges changes={breakingChanges} />
         <NotesDisplay notes={displayNotes} />
+        <div className="flex items-center justify-between gap-3 text-xs text-gray-500 dark:text-gray-400">
+          <span>{cached ? 'Replayed from the analysis cache.' : ''}</span>
+          {/* Regenerating calls the model again rather than replaying a cached result */}
+          <button
+            onClick={() => analyzeDiff({ force: true })}
+            className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          >
+            Regenerate notes
+          </button>
+        </div>
+        {guide || migration.loading ? (
+          <MigrationGuide guide={guide || ''} streaming={migration.loading} />
+        ) : isBreaking && (
+          // Migration guides cost an extra completion, so they're only generated on request
+          <button
+            onClick={migration.generate}
+            className="w-full py-2 text-sm border border-amber-300 dark:border-amber-800 text-amber-700 dark:text-amber-400 rounded-lg hover:bg-amber-50 dark:hover:bg-amber-900/20 transition-colors font-medium"
+          >
+            Generate migration guide
+          </button>
+        )}
+        {migration.error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{migration.error}</p>
+        )}
+        {truncation && <TruncationNotice summary={truncation} />}
       </div>
     );
   }
@@ -119,7 +220,7 @@ export default function DiffAnalyzer({ diffId, diffContent, description }: DiffA
   return (
     <div className="space-y-6 transition-all duration-300">
       <button
-        onClick={analyzeDiff}
+        onClick={() => analyzeDiff()}
         className="w-full py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors transform hover:translate-y-[-1px] focus:ring-2 focus:ring-blue-400 focus:outline-none font-medium"
         disabled={!diffContent}
       >
@@ -0,0 +1,111 @@
+/**
+ * Search filters for the merged PRs: merge dates, labels, author, base branch and title text
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { ChangeFilters } from '@/types/change-filters';
+
+interface PRFiltersProps {
+  filters: ChangeFilters;
+  onChange: (filters: ChangeFilters) => void;
+  disabled?: boolean;
+}
+
+// Form fields are kept as text; label lists are comma-separated
+type FilterDraft = Record<keyof ChangeFilters, string>;
+
+const toDraft = (filters: ChangeFilters): FilterDraft => ({
+  mergedAfter: filters.mergedAfter ?? '',
+  mergedBefore: filters.mergedBefore ?? '',
+  labels: filters.labels?.join(', ') ?? '',
+  excludeLabels: filters.excludeLabels?.join(', ') ?? '',
+  author: filters.author ?? '',
+  baseBranch: filters.baseBranch ?? '',
+  search: filters.search ?? '',
+});
+
+const toFilters = (draft: FilterDraft): ChangeFilters => {
+  const filters: ChangeFilters = {};
+  for (const name of ['mergedAfter', 'mergedBefore', 'author', 'baseBranch', 'search'] as const) {
+    const value = draft[name].trim();
+    if (value) filters[name] = value;
+  }
+  for (const name of ['labels', 'excludeLabels'] as const) {
+    const values = draft[name].split(',').map(value => value.trim()).filter(Boolean);
+    if (values.length > 0) filters[name] = values;
+  }
+  return filters;
+};
+
+const fields: { name: keyof ChangeFilters; label: string; type: 'text' | 'date'; placeholder?: string }[] = [
+  { name: 'search', label: 'Title contains', type: 'text', placeholder: 'e.g. streaming' },
+  { name: 'author', label: 'Author', type: 'text', placeholder: 'Username' },
+  { name: 'baseBranch', label: 'Merged into', type: 'text', placeholder: 'e.g. main' },
+  { name: 'mergedAfter', label: 'Merged on or after', type: 'date' },
+  { name: 'mergedBefore', label: 'Merged before', type: 'date' },
+  { name: 'labels', label: 'With labels', type: 'text', placeholder: 'e.g. public-api, feature' },
+  { name: 'excludeLabels', label: 'Without labels', type: 'text', placeholder: 'e.g. internal' },
+];
+
+export const PRFilters: React.FC<PRFiltersProps> = ({ filters, onChange, disabled }) => {
+  const [draft, setDraft] = useState<FilterDraft>(() => toDraft(filters));
+
+  // Keep the form in step with the applied filters
+  useEffect(() => {
+    setDraft(toDraft(filters));
+  }, [filters]);
+
+  const activeCount = Object.keys(filters).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(toFilters(draft));
+  };
+
+  return (
+    <details className="max-w-4xl mx-auto mb-8 text-sm" open={activeCount > 0}>
+      <summary className="cursor-pointer text-gray-600 dark:text-gray-300">
+        Filters{activeCount > 0 ? ` (${activeCount} active)` : ''}
+      </summary>
+
+      <form onSubmit={handleSubmit} className="mt-3 p-5 border border-gray-200 dark:border-gray-800 rounded-xl bg-white dark:bg-gray-900 shadow-sm">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {fields.map(({ name, label, type, placeholder }) => (
+            <label key={name} className="flex flex-col gap-1">
+              <span className="text-gray-600 dark:text-gray-300">{label}</span>
+              <input
+                type={type}
+                value={draft[name]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [name]: e.target.value }))}
+                placeholder={placeholder}
+                className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          <button
+            type="submit"
+            disabled={disabled}
+            className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 to-indigo-600 text-white hover:from-blue-600 hover:to-indigo-700 disabled:opacity-50 transition-all duration-300 shadow-sm font-medium"
+          >
+            Apply filters
+          </button>
+          {activeCount > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange({})}
+              disabled={disabled}
+              className="px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      </form>
+    </details>
+  );
+};
+
+export default PRFilters;
@@ -0,0 +1,81 @@
+/**
+ * Selects the PRs that landed between two refs, e.g. everything since the last release tag
+ */
+
+import React, { useEffect, useState } from 'react';
+
+export interface ReleaseRange {
+  base: string;
+  head: string;
+}
+
+interface RangeSelectorProps {
+  range: ReleaseRange | null;
+  onChange: (range: ReleaseRange | null) => void;
+  disabled?: boolean;
+}
+
+export const RangeSelector: React.FC<RangeSelectorProps> = ({ range, onChange, disabled }) => {
+  const [base, setBase] = useState(range?.base ?? '');
+  const [head, setHead] = useState(range?.head ?? '');
+
+  // Keep the inputs in step with the applied range
+  useEffect(() => {
+    setBase(range?.base ?? '');
+    setHead(range?.head ?? '');
+  }, [range]);
+
+  const canApply = base.trim() !== '' && head.trim() !== '' && (base.trim() !== range?.base || head.trim() !== range?.head);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canApply) onChange({ base: base.trim(), head: head.trim() });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="max-w-4xl mx-auto mb-8 flex flex-wrap items-center gap-3 text-sm"
+    >
+      <span className="text-gray-600 dark:text-gray-300">
+        {range ? 'PRs merged between' : 'Recently merged PRs, or PRs between'}
+      </span>
+      <input
+        type="text"
+        value={base}
+        onChange={(e) => setBase(e.target.value)}
+        placeholder="Base (e.g. v4.2.0)"
+        aria-label="Base ref"
+        className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+      />
+      <span className="text-gray-600 dark:text-gray-300">and</span>
+      <input
+        type="text"
+        value={head}
+        onChange={(e) => setHead(e.target.value)}
+        placeholder="Head (e.g. main)"
+        aria-label="Head ref"
+        className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !canApply}
+        className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 to-indigo-600 text-white hover:from-blue-600 hover:to-indigo-700 disabled:opacity-50 transition-all duration-300 shadow-sm font-medium"
+      >
+        Load range
+      </button>
+      {range && (
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          Show recent PRs
+        </button>
+      )}
+    </form>
+  );
+};
+
+export default RangeSelector;
@@ -0,0 +1,120 @@
+/**
+ * Panel that generates one set of release notes covering several PRs
+ */
+
+import React from 'react';
+import { useReleaseDocument } from '@/hooks/useReleaseDocument';
+import { MarkdownRenderer } from './ui/MarkdownRenderer';
+import StatusCard from './ui/StatusCard';
+import { PRIMARY_AUDIENCE, getNote } from '@/lib/audiences';
+import type { ReleaseItem } from '@/types/release-document';
+
+interface ReleaseDocumentPanelProps {
+  prIds: string[];
+  owner?: string;
+  repo?: string;
+}
+
+const itemStatusLabel: Record<ReleaseItem['status'], string> = {
+  completed: 'done',
+  skipped: 'skipped',
+  failed: 'failed',
+  duplicate: 'duplicate',
+};
+
+export const ReleaseDocumentPanel: React.FC<ReleaseDocumentPanelProps> = ({ prIds, owner, repo }) => {
+  const { loading, error, total, items, headline, document, generate, cancel, reset } = useReleaseDocument({ owner, repo });
+
+  const leftOut = (document ? items : []).filter(item => item.status !== 'completed');
+
+  return (
+    <div className="mb-8 p-5 border border-gray-200 dark:border-gray-800 rounded-xl bg-white dark:bg-gray-900 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Release notes</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            One document for the {prIds.length} loaded PR(s), grouped by type
+          </p>
+        </div>
+        {loading ? (
+          <button
+            onClick={cancel}
+            className="px-4 py-2 text-sm rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={() => (document ? reset() : generate(prIds))}
+            disabled={prIds.length === 0}
+            className="px-4 py-2 text-sm rounded-lg bg-gradient-to-r from-blue-500 to-indigo-600 text-white hover:from-blue-600 hover:to-indigo-700 disabled:opacity-50 transition-all duration-300 shadow-sm font-medium"
+          >
+            {document ? 'Clear' : 'Generate release document'}
+          </button>
+        )}
+      </div>
+
+      {loading && (
+        <div className="mt-4">
+          <div className="flex items-center text-sm text-blue-700 dark:text-blue-400">
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-t-blue-600 border-blue-200 mr-2" />
+            Analyzed {items.length} of {total} PR(s)
+          </div>
+          <ul className="mt-2 ml-6 text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+            {items.map(item => (
+              <li key={item.id}>
+                #{item.id} {item.title} <span className="text-gray-400">({itemStatusLabel[item.status]})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <StatusCard type="error" title="Release notes failed" message={error} onRetry={() => generate(prIds)} />
+      )}
+
+      {(headline || document) && (
+        <div className="mt-5 space-y-5 animate-fadeIn">
+          {headline && <MarkdownRenderer content={headline} className="text-base" />}
+
+          {document?.sections.map(section => (
+            <section key={section.id}>
+              <h3 className="font-semibold text-gray-800 dark:text-gray-200 mb-2">{section.title}</h3>
+              <ul className="space-y-2">
+                {section.items.map(item => (
+                  <li key={item.id} className="flex items-start text-sm">
+                    <a
+                      href={item.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="shrink-0 mr-2 text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      #{item.id}
+                    </a>
+                    <MarkdownRenderer content={(item.notes && getNote(item.notes, PRIMARY_AUDIENCE)) || item.title} />
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+
+          {leftOut.length > 0 && (
+            <details className="text-xs text-gray-500 dark:text-gray-400">
+              <summary className="cursor-pointer">{leftOut.length} PR(s) left out</summary>
+              <ul className="mt-2 ml-4 list-disc space-y-0.5">
+                {leftOut.map(item => (
+                  <li key={item.id}>
+                    #{item.id} {item.title}: {item.status === 'duplicate' ? `duplicate of #${item.duplicateOf}` : item.message || item.status}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReleaseDocumentPanel;
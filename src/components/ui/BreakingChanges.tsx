@@ -0,0 +1,38 @@
+/**
+ * Breaking API changes found by static analysis of the diff
+ */
+
+import React from 'react';
+import type { ApiChange } from '@/types/diff-analyzer';
+
+interface BreakingChangesProps {
+  changes: ApiChange[];
+  className?: string;
+}
+
+export const BreakingChanges: React.FC<BreakingChangesProps> = ({
+  changes,
+  className = '',
+}) => {
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/10 p-4 ${className}`}>
+      <h3 className="font-semibold text-red-700 dark:text-red-400">
+        Breaking changes ({changes.length})
+      </h3>
+      <ul className="mt-2 space-y-1 text-sm text-red-700 dark:text-red-300">
+        {changes.map(change => (
+          <li key={`${change.file}-${change.name}-${change.detail}`}>
+            <code className="font-mono">{change.name}</code>: {change.detail}
+            <span className="ml-1 text-xs text-red-500 dark:text-red-400/70">({change.file})</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BreakingChanges;
@@ -0,0 +1,56 @@
+/**
+ * Badge showing a change's category and scope
+ */
+
+import React from 'react';
+import type { ChangeCategory } from '@/types/diff-analyzer';
+
+interface CategoryBadgeProps {
+  category: ChangeCategory;
+  scope?: string;
+  className?: string;
+}
+
+export const categoryConfig: Record<ChangeCategory, { label: string; className: string }> = {
+  breaking: {
+    label: 'Breaking',
+    className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+  },
+  security: {
+    label: 'Security',
+    className: 'bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200',
+  },
+  feature: {
+    label: 'Feature',
+    className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  },
+  fix: {
+    label: 'Fix',
+    className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200',
+  },
+  perf: {
+    label: 'Performance',
+    className: 'bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200',
+  },
+  other: {
+    label: 'Other',
+    className: 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300',
+  },
+};
+
+export const CategoryBadge: React.FC<CategoryBadgeProps> = ({
+  category,
+  scope,
+  className = '',
+}) => {
+  const config = categoryConfig[category];
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.className} ${className}`}>
+      {config.label}
+      {scope && <span className="ml-1 opacity-75">({scope})</span>}
+    </span>
+  );
+};
+
+export default CategoryBadge;
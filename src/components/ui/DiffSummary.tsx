@@ -0,0 +1,80 @@
+/**
+ * Compact summaries of a parsed diff: a stats badge and a changed-files list
+ */
+
+import React, { useMemo } from 'react';
+import { parseDiff, getDiffStats, type DiffFile, type DiffFileStatus } from '@/lib/diff-parser';
+
+interface DiffSummaryProps {
+  diff: string;
+  className?: string;
+}
+
+const statusConfig: Record<DiffFileStatus, { label: string; className: string }> = {
+  added: { label: 'A', className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' },
+  deleted: { label: 'D', className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200' },
+  modified: { label: 'M', className: 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300' },
+  renamed: { label: 'R', className: 'bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200' },
+  copied: { label: 'C', className: 'bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200' },
+};
+
+/**
+ * Badge showing file count and added/removed line totals
+ */
+export const DiffStatsBadge: React.FC<DiffSummaryProps> = ({ diff, className = '' }) => {
+  const stats = useMemo(() => getDiffStats(parseDiff(diff)), [diff]);
+
+  return (
+    <span className={`flex items-center text-xs font-mono text-gray-500 dark:text-gray-400 ${className}`}>
+      {stats.files} {stats.files === 1 ? 'file' : 'files'}
+      <span className="ml-2 text-green-600 dark:text-green-400">+{stats.additions}</span>
+      <span className="ml-1 text-red-600 dark:text-red-400">−{stats.deletions}</span>
+    </span>
+  );
+};
+
+const describePath = (file: DiffFile): string => {
+  if ((file.status === 'renamed' || file.status === 'copied') && file.oldPath && file.newPath) {
+    return `${file.oldPath} → ${file.newPath}`;
+  }
+  return file.path;
+};
+
+/**
+ * List of changed files with status, binary and mode-change markers
+ */
+export const ChangedFilesList: React.FC<DiffSummaryProps> = ({ diff, className = '' }) => {
+  const files = useMemo(() => parseDiff(diff), [diff]);
+
+  if (files.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={`text-xs font-mono space-y-1 ${className}`}>
+      {files.map((file, index) => {
+        const status = statusConfig[file.status];
+        const modeChanged = file.oldMode && file.newMode && file.oldMode !== file.newMode;
+
+        return (
+          <li key={`${file.path}-${index}`} className="flex items-center text-gray-600 dark:text-gray-400">
+            <span className={`w-5 text-center rounded mr-2 ${status.className}`} title={file.status}>
+              {status.label}
+            </span>
+            <span className="truncate flex-grow">{describePath(file)}</span>
+            {file.isBinary && <span className="ml-2 text-gray-400">binary</span>}
+            {modeChanged && <span className="ml-2 text-gray-400">{file.oldMode} → {file.newMode}</span>}
+            {!file.isBinary && (
+              <span className="ml-2 whitespace-nowrap">
+                <span className="text-green-600 dark:text-green-400">+{file.additions}</span>
+                <span className="ml-1 text-red-600 dark:text-red-400">−{file.deletions}</span>
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default DiffStatsBadge;
@@ -0,0 +1,57 @@
+/**
+ * Per-file status list for multi-pass (map-reduce) analysis
+ */
+
+import React from 'react';
+import type { FileSummaryStatus, MapReduceProgress } from '@/types/diff-analyzer';
+
+interface FileCoverageProps {
+  progress: MapReduceProgress;
+  files: Record<string, FileSummaryStatus>;
+  className?: string;
+}
+
+const statusConfig: Record<FileSummaryStatus, { icon: string; className: string }> = {
+  running: { icon: '…', className: 'text-blue-600 dark:text-blue-400 animate-pulse' },
+  done: { icon: '✓', className: 'text-green-600 dark:text-green-400' },
+  failed: { icon: '✕', className: 'text-red-600 dark:text-red-400' },
+};
+
+export const FileCoverage: React.FC<FileCoverageProps> = ({
+  progress,
+  files,
+  className = '',
+}) => {
+  const entries = Object.entries(files);
+
+  return (
+    <div className={`p-3 bg-white dark:bg-gray-800 rounded border border-blue-200 dark:border-blue-900 ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-blue-600 dark:text-blue-400 font-medium">
+          {progress.stage === 'map' ? 'Summarizing files' : 'Combining file summaries'}
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {progress.completed}/{progress.total} groups
+        </span>
+      </div>
+      <div className="h-1 bg-blue-100 dark:bg-blue-900 rounded mb-3 overflow-hidden">
+        <div
+          className="h-full bg-blue-600 dark:bg-blue-400 transition-all duration-300"
+          style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }}
+        />
+      </div>
+      <ul className="text-xs font-mono space-y-0.5 max-h-40 overflow-y-auto">
+        {entries.map(([file, status]) => (
+          <li key={file} className="flex items-center text-gray-600 dark:text-gray-400">
+            <span className={`w-4 mr-2 text-center ${statusConfig[status].className}`}>
+              {statusConfig[status].icon}
+            </span>
+            <span className="truncate">{file}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default FileCoverage;
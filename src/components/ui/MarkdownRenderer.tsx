@@ -3,7 +3,7 @@
  * and consistent styling across the application.
  */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
@@ -54,13 +54,63 @@ const markdownComponents = {
   ),
 };
 
+/**
+ * Closes inline code, code fences and bold markers left open by partially
+ * streamed text, so it renders as formatted markdown instead of raw symbols
+ */
+const closeOpenMarkdown = (text: string): string => {
+  const fences = (text.match(/^```/gm) || []).length;
+  if (fences % 2 === 1) {
+    return `${text}\n\`\`\``;
+  }
+
+  let closed = text;
+  const inlineCode = (text.replace(/^```.*$/gm, '').match(/`/g) || []).length;
+  if (inlineCode % 2 === 1) {
+    closed += '`';
+  }
+
+  // Only count bold markers outside inline code spans
+  const bold = (closed.replace(/`[^`]*`/g, '').match(/\*\*/g) || []).length;
+  if (bold % 2 === 1) {
+    closed = closed.replace(/\s+$/, '') + '**';
+  }
+
+  return closed;
+};
+
 /**
  * MarkdownRenderer component for rendering markdown content with math support
  */
 export const MarkdownRenderer: React.FC<MarkdownComponentProps> = ({ 
   content, 
-  className 
+  className,
+  streaming = false,
+  flaggedTerms,
 }) => {
+  // Swap in a code renderer that marks flagged inline spans
+  const components = useMemo(() => {
+    if (!flaggedTerms?.length) {
+      return markdownComponents;
+    }
+    return {
+      ...markdownComponents,
+      code: ({ children, className }: { children?: React.ReactNode; className?: string }) => {
+        if (!className && typeof children === 'string' && flaggedTerms.includes(children.trim())) {
+          return (
+            <code
+              className="bg-gray-800 text-white dark:text-gray-100 px-1.5 py-0.5 rounded text-sm font-mono underline decoration-wavy decoration-red-500"
+              title="Not found in the diff"
+            >
+              {children}
+            </code>
+          );
+        }
+        return markdownComponents.code({ children, className });
+      },
+    };
+  }, [flaggedTerms]);
+
   if (!content) {
     return null;
   }
@@ -70,9 +120,9 @@ export const MarkdownRenderer: React.FC<MarkdownComponentProps> = ({
       <ReactMarkdown
         remarkPlugins={[remarkGfm, remarkMath]}
         rehypePlugins={[rehypeKatex]}
-        components={markdownComponents}
+        components={components}
       >
-        {content}
+        {streaming ? closeOpenMarkdown(content) : content}
       </ReactMarkdown>
     </div>
   );
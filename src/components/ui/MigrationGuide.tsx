@@ -0,0 +1,45 @@
+/**
+ * Card showing a migration guide for a breaking change
+ */
+
+import React from 'react';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+interface MigrationGuideProps {
+  guide: string;
+  className?: string;
+  /** Guide text is still arriving from the model */
+  streaming?: boolean;
+}
+
+export const MigrationGuide: React.FC<MigrationGuideProps> = ({
+  guide,
+  className = '',
+  streaming = false,
+}) => {
+  return (
+    <div className={`rounded-lg shadow-sm bg-amber-50 dark:bg-amber-900/20 ${className}`}>
+      <div className="p-4 border-b border-amber-100 dark:border-amber-800 flex items-center">
+        <span className="text-xl mr-2" role="img" aria-label="Migration">
+          🧭
+        </span>
+        <h3 className="font-semibold text-amber-700 dark:text-amber-400">
+          Migration Guide
+        </h3>
+      </div>
+      <div className="p-4">
+        {streaming && !guide ? (
+          <div className="h-5 bg-white/70 dark:bg-gray-800/70 rounded animate-pulse" />
+        ) : (
+          <MarkdownRenderer
+            content={guide}
+            className="prose dark:prose-invert prose-sm max-w-none"
+            streaming={streaming}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MigrationGuide;
@@ -4,55 +4,91 @@
 
 import React from 'react';
 import { MarkdownRenderer } from './MarkdownRenderer';
-import type { ReleaseNotes } from '@/types/diff-analyzer';
+import { AUDIENCES, getNote, type Audience, type AudienceColor } from '@/lib/audiences';
+import type { GroundingIssue, ReleaseNotes } from '@/types/diff-analyzer';
 
 interface NotesCardProps {
-  type: 'developer' | 'marketing';
+  audience: Audience;
   notes: string;
   className?: string;
+  /** Notes are still arriving from the model */
+  streaming?: boolean;
+  /** Claims in these notes that the diff doesn't support */
+  unsupportedClaims?: GroundingIssue[];
 }
 
-const cardConfig = {
-  developer: {
+// Written out in full so Tailwind picks the classes up
+const colorConfig: Record<AudienceColor, { bgClass: string; borderClass: string; textClass: string }> = {
+  blue: {
     bgClass: 'bg-blue-50 dark:bg-blue-900/20',
     borderClass: 'border-blue-100 dark:border-blue-800',
     textClass: 'text-blue-700 dark:text-blue-400',
-    icon: '👩‍💻',
-    label: 'Developer Notes',
-    ariaLabel: 'Developer',
   },
-  marketing: {
+  green: {
     bgClass: 'bg-green-50 dark:bg-green-900/20',
     borderClass: 'border-green-100 dark:border-green-800',
     textClass: 'text-green-700 dark:text-green-400',
-    icon: '🎯',
-    label: 'Marketing Notes',
-    ariaLabel: 'Marketing',
+  },
+  purple: {
+    bgClass: 'bg-purple-50 dark:bg-purple-900/20',
+    borderClass: 'border-purple-100 dark:border-purple-800',
+    textClass: 'text-purple-700 dark:text-purple-400',
+  },
+  amber: {
+    bgClass: 'bg-amber-50 dark:bg-amber-900/20',
+    borderClass: 'border-amber-100 dark:border-amber-800',
+    textClass: 'text-amber-700 dark:text-amber-400',
+  },
+  red: {
+    bgClass: 'bg-red-50 dark:bg-red-900/20',
+    borderClass: 'border-red-100 dark:border-red-800',
+    textClass: 'text-red-700 dark:text-red-400',
+  },
+  gray: {
+    bgClass: 'bg-gray-50 dark:bg-gray-800/40',
+    borderClass: 'border-gray-100 dark:border-gray-700',
+    textClass: 'text-gray-700 dark:text-gray-300',
   },
 };
 
 export const NotesCard: React.FC<NotesCardProps> = ({
-  type,
+  audience,
   notes,
   className = '',
+  streaming = false,
+  unsupportedClaims = [],
 }) => {
-  const config = cardConfig[type];
+  const config = colorConfig[audience.color] ?? colorConfig.gray;
+  const flaggedTerms = unsupportedClaims
+    .filter(issue => issue.kind === 'identifier')
+    .map(issue => issue.claim);
 
   return (
     <div className={`rounded-lg shadow-sm hover:shadow-md transition-all duration-300 ${config.bgClass} ${className}`}>
       <div className={`p-4 border-b flex items-center ${config.borderClass}`}>
-        <span className="text-xl mr-2" role="img" aria-label={config.ariaLabel}>
-          {config.icon}
+        <span className="text-xl mr-2" role="img" aria-label={audience.name}>
+          {audience.icon}
         </span>
         <h3 className={`font-semibold ${config.textClass}`}>
-          {config.label}
+          {audience.name}
         </h3>
       </div>
       <div className="p-4">
-        <MarkdownRenderer 
-          content={notes}
-          className="prose dark:prose-invert prose-sm max-w-none"
-        />
+        {streaming && !notes ? (
+          <div className="h-5 bg-white/70 dark:bg-gray-800/70 rounded animate-pulse" />
+        ) : (
+          <MarkdownRenderer 
+            content={notes}
+            className="prose dark:prose-invert prose-sm max-w-none"
+            streaming={streaming}
+            flaggedTerms={flaggedTerms}
+          />
+        )}
+        {unsupportedClaims.length > 0 && (
+          <p className="mt-2 text-xs text-red-600 dark:text-red-400" role="note">
+            ⚠ Not found in the diff: {unsupportedClaims.map(issue => issue.claim).join(', ')}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -61,16 +97,25 @@ export const NotesCard: React.FC<NotesCardProps> = ({
 interface NotesDisplayProps {
   notes: ReleaseNotes;
   className?: string;
+  streaming?: boolean;
 }
 
 export const NotesDisplay: React.FC<NotesDisplayProps> = ({
   notes,
   className = '',
+  streaming = false,
 }) => {
   return (
     <div className={`grid grid-cols-1 gap-6 md:grid-cols-2 animate-fadeIn ${className}`}>
-      <NotesCard type="developer" notes={notes.developer} />
-      <NotesCard type="marketing" notes={notes.marketing} />
+      {AUDIENCES.map(audience => (
+        <NotesCard
+          key={audience.id}
+          audience={audience}
+          notes={getNote(notes, audience.id)}
+          streaming={streaming}
+          unsupportedClaims={notes.unsupportedClaims?.filter(issue => issue.field === audience.id)}
+        />
+      ))}
     </div>
   );
 };
@@ -0,0 +1,44 @@
+/**
+ * Notice describing which parts of a diff were left out of the analysis
+ */
+
+import React from 'react';
+import type { TruncationSummary } from '@/types/diff-analyzer';
+
+interface TruncationNoticeProps {
+  summary: TruncationSummary;
+  className?: string;
+}
+
+export const TruncationNotice: React.FC<TruncationNoticeProps> = ({
+  summary,
+  className = '',
+}) => {
+  if (!summary.truncated) {
+    return null;
+  }
+
+  const { omittedFiles, partialFiles } = summary;
+
+  return (
+    <details className={`text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+      <summary className="cursor-pointer">
+        Diff truncated to fit the model: {omittedFiles.length} file(s) omitted, {partialFiles.length} partially included
+      </summary>
+      <ul className="mt-2 ml-4 list-disc font-mono space-y-0.5">
+        {omittedFiles.map(file => (
+          <li key={`omitted-${file.path}`}>
+            {file.path} <span className="text-gray-400">({file.reason === 'low-signal' ? 'low signal' : 'over budget'})</span>
+          </li>
+        ))}
+        {partialFiles.map(file => (
+          <li key={`partial-${file.path}`}>
+            {file.path} <span className="text-gray-400">({file.keptHunks}/{file.totalHunks} hunks{file.cutLines ? `, ${file.cutLines} lines cut` : ''})</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default TruncationNotice;
@@ -0,0 +1,92 @@
+/**
+ * Custom hook for queueing background analyses and following their status
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { AnalysisJobSummary } from '@/types/analysis-jobs';
+
+// How often job statuses are refreshed while any are queued or running
+const POLL_INTERVAL_MS = 3000;
+
+interface UseAnalysisJobsProps {
+  owner?: string;
+  repo?: string;
+}
+
+export const useAnalysisJobs = ({ owner, repo }: UseAnalysisJobsProps = {}) => {
+  const [jobs, setJobs] = useState<AnalysisJobSummary[]>([]);
+  const [queueing, setQueueing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetches the current status of every job on the server
+   */
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/jobs');
+      if (!response.ok) {
+        throw new Error(`Failed to load jobs: ${response.statusText}`);
+      }
+      const data = await response.json() as { jobs: AnalysisJobSummary[] };
+      setJobs(data.jobs);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load jobs');
+    }
+  }, []);
+
+  /**
+   * Queues a background analysis for each PR
+   */
+  const queue = useCallback(async (prIds: string[]) => {
+    setQueueing(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ owner, repo, prIds }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to queue jobs: ${response.statusText}`);
+      }
+      await refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to queue jobs');
+    } finally {
+      setQueueing(false);
+    }
+  }, [owner, repo, refresh]);
+
+  /**
+   * Cancels a queued or running job
+   */
+  const cancel = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to cancel job: ${response.statusText}`);
+      }
+      await refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to cancel job');
+    }
+  }, [refresh]);
+
+  // Load jobs queued on an earlier visit
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Poll while anything is still waiting or running
+  const active = jobs.some(job => job.status === 'queued' || job.status === 'running');
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, refresh]);
+
+  return { jobs, queueing, error, queue, cancel, refresh };
+};
@@ -3,53 +3,167 @@
  */
 
 import { useState, useCallback, useRef } from 'react';
-import type { AnalysisState, StreamEvent, ReleaseNotes } from '@/types/diff-analyzer';
+import type {
+  AnalysisStart,
+  ApiChange,
+  AnalysisState,
+  StreamEvent,
+  ReleaseNotes,
+  TruncationSummary,
+  MapReduceProgress,
+  RetryInfo,
+  NotesDelta,
+  PromptRef,
+} from '@/types/diff-analyzer';
+import { createEmptyNotes, isAudienceId, normalizeReleaseNotes } from '@/lib/audiences';
+
+const EMPTY_NOTES: ReleaseNotes = createEmptyNotes();
+
+// Events after which the server closes the stream
+const FINAL_EVENTS: StreamEvent['type'][] = ['complete', 'message', 'error'];
+
+// Attempts to resume a stream that dropped before its final event
+const MAX_RECONNECTS = 3;
+
+// Job id of an analysis still streaming for a diff, kept across page refreshes
+const getStreamKey = (diffId: string) => `diff-analysis-stream-${diffId}`;
+
+/**
+ * Whether a diff has an analysis that was still streaming when the page was last closed
+ */
+export const hasResumableAnalysis = (diffId: string): boolean => {
+  return typeof window !== 'undefined' && localStorage.getItem(getStreamKey(diffId)) !== null;
+};
 
 interface UseDiffAnalysisProps {
   diffId: string;
   diffContent: string;
   description: string;
-  onNotesUpdate?: (notes: ReleaseNotes | null, isComplete: boolean) => void;
+  labels?: string[];
+  /** Repository of the PR, for its prompt overrides */
+  owner?: string;
+  repo?: string;
+  /** Prompt template to use instead of the default (see src/lib/prompt-registry.ts) */
+  promptId?: string;
+  onNotesUpdate?: (notes: ReleaseNotes | null, isComplete: boolean, model?: string, prompt?: PromptRef) => void;
 }
 
-export const useDiffAnalysis = ({ diffId, diffContent, description, onNotesUpdate }: UseDiffAnalysisProps) => {
+export const useDiffAnalysis = ({
+  diffId,
+  diffContent,
+  description,
+  labels,
+  owner,
+  repo,
+  promptId,
+  onNotesUpdate,
+}: UseDiffAnalysisProps) => {
   const [state, setState] = useState<AnalysisState>({
     loading: false,
     error: null,
     notes: null,
+    partialNotes: EMPTY_NOTES,
     streamProgress: '',
     messageInfo: null,
+    truncation: null,
+    mapReduce: null,
+    fileCoverage: {},
+    retry: null,
+    apiChanges: [],
+    cached: false,
   });
 
   const isAnalyzingRef = useRef(false);
+  // Model and prompt template reported by the start event, saved alongside the notes
+  const modelRef = useRef<string | undefined>(undefined);
+  const promptRef = useRef<PromptRef | undefined>(undefined);
+  // SSE id (`<jobId>:<eventId>`) of the last event received, for resuming
+  const lastEventIdRef = useRef<string | null>(null);
 
   /**
    * Handles different types of stream events from the analysis API
    */
   const handleStreamEvent = useCallback((event: StreamEvent) => {
     switch (event.type) {
-      case 'start':
-        setState(prev => ({ ...prev, loading: true }));
+      case 'start': {
+        const start = typeof event.data === 'object' && event.data !== null && 'model' in event.data
+          ? event.data as AnalysisStart
+          : null;
+        if (start) {
+          modelRef.current = start.model;
+          promptRef.current = start.prompt;
+        }
+        setState(prev => ({ ...prev, loading: true, cached: !!start?.cached }));
         break;
+      }
         
       case 'progress':
         if (typeof event.data === 'string') {
           setState(prev => ({ ...prev, streamProgress: event.data as string }));
+        } else if (typeof event.data === 'object' && event.data !== null && 'stage' in event.data) {
+          // Map-reduce progress: track which files have been summarized
+          const progress = event.data as MapReduceProgress;
+          const { group } = progress;
+          setState(prev => ({
+            ...prev,
+            mapReduce: progress,
+            fileCoverage: group
+              ? { ...prev.fileCoverage, ...Object.fromEntries(group.files.map(file => [file, group.status])) }
+              : prev.fileCoverage,
+          }));
+        }
+        break;
+        
+      case 'truncation':
+        if (typeof event.data === 'object' && event.data !== null) {
+          setState(prev => ({ ...prev, truncation: event.data as TruncationSummary }));
+        }
+        break;
+        
+      case 'retry':
+        if (typeof event.data === 'object' && event.data !== null) {
+          // A repair attempt restarts the raw output and the streamed fields
+          setState(prev => ({
+            ...prev,
+            retry: event.data as RetryInfo,
+            streamProgress: '',
+            partialNotes: EMPTY_NOTES,
+          }));
+        }
+        break;
+        
+      case 'api-changes':
+        if (Array.isArray(event.data)) {
+          setState(prev => ({ ...prev, apiChanges: event.data as ApiChange[] }));
+        }
+        break;
+        
+      case 'notes-delta':
+        if (typeof event.data === 'object' && event.data !== null && 'field' in event.data) {
+          const { field, delta } = event.data as NotesDelta;
+          if (isAudienceId(field)) {
+            setState(prev => {
+              const { audiences } = prev.partialNotes;
+              return {
+                ...prev,
+                partialNotes: { ...prev.partialNotes, audiences: { ...audiences, [field]: (audiences[field] ?? '') + delta } },
+              };
+            });
+          }
         }
         break;
         
       case 'notes':
         if (typeof event.data === 'object' && event.data !== null) {
-          const notesData = event.data as unknown;
-          if (isValidNotesData(notesData)) {
-            const notes = notesData as ReleaseNotes;
+          const notes = normalizeReleaseNotes(event.data);
+          if (notes) {
             setState(prev => ({
               ...prev,
               notes: notes
             }));
             // Save state when notes are received
             if (onNotesUpdate) {
-              onNotesUpdate(notes, false);
+              onNotesUpdate(notes, false, modelRef.current, promptRef.current);
             }
           }
         }
@@ -59,7 +173,7 @@ export const useDiffAnalysis = ({ diffId, diffContent, description, onNotesUpdat
         setState(prev => {
           // Mark as complete when stream ends
           if (prev.notes && onNotesUpdate) {
-            onNotesUpdate(prev.notes, true);
+            onNotesUpdate(prev.notes, true, modelRef.current, promptRef.current);
           }
           return {
             ...prev,
@@ -98,20 +212,6 @@ export const useDiffAnalysis = ({ diffId, diffContent, description, onNotesUpdat
     }
   }, [onNotesUpdate]);
 
-  /**
-   * Type guard to validate notes data structure
-   */
-  const isValidNotesData = (data: unknown): data is ReleaseNotes => {
-    return (
-      data !== null &&
-      typeof data === 'object' &&
-      'developer' in data &&
-      'marketing' in data &&
-      typeof (data as Record<string, unknown>).developer === 'string' &&
-      typeof (data as Record<string, unknown>).marketing === 'string'
-    );
-  };
-
   /**
    * Parses Server-Sent Events data
    */
@@ -130,9 +230,11 @@ export const useDiffAnalysis = ({ diffId, diffContent, description, onNotesUpdat
   }, []);
 
   /**
-   * Initiates diff analysis with streaming response handling
+   * Initiates diff analysis with streaming response handling.
+   * `force` skips the server's analysis cache and always calls the model;
+   * `skipRelevance` analyzes the diff even if the relevance filter would skip it.
    */
-  const analyzeDiff = useCallback(async () => {
+  const analyzeDiff = useCallback(async ({ force = false, skipRelevance = false }: { force?: boolean; skipRelevance?: boolean } = {}) => {
     if (!diffContent || isAnalyzingRef.current) {
       return;
     }
@@ -144,30 +246,26 @@ export const useDiffAnalysis = ({ diffId, diffContent, description, onNotesUpdat
       loading: true,
       error: null,
       notes: null,
+      partialNotes: EMPTY_NOTES,
       streamProgress: '',
       messageInfo: null,
+      truncation: null,
+      mapReduce: null,
+      fileCoverage: {},
+      retry: null,
+      apiChanges: [],
+      cached: false,
     });
 
     const controller = new AbortController();
+    const streamKey = getStreamKey(diffId);
+    lastEventIdRef.current = null;
 
-    try {
-      const response = await fetch('/api/analyze-diff', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          diffId,
-          diffContent,
-          description,
-        }),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to analyze diff: ${response.statusText}`);
-      }
-
+    /**
+     * Reads a response's events until the stream ends. Resolves with true once a
+     * final event arrives, or false if the connection dropped before one did.
+     */
+    const readEvents = async (response: Response): Promise<boolean> => {
       if (!response.body) {
         throw new Error('ReadableStream not supported');
       }
@@ -176,26 +274,94 @@ export const useDiffAnalysis = ({ diffId, diffContent, description, onNotesUpdat
       const decoder = new TextDecoder();
       let buffer = '';
 
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          
+          if (done) return false;
 
-        const chunk = decoder.decode(value, { stream: true });
-        buffer += chunk;
+          const chunk = decoder.decode(value, { stream: true });
+          buffer += chunk;
 
-        // Process Server-Sent Events
-        const events = buffer.split('\n\n');
-        buffer = events.pop() || '';
+          // Process Server-Sent Events
+          const events = buffer.split('\n\n');
+          buffer = events.pop() || '';
 
-        for (const eventText of events) {
-          if (!eventText.trim()) continue;
-          
-          const event = parseSSEData(eventText);
-          if (event) {
-            handleStreamEvent(event);
+          for (const eventText of events) {
+            if (!eventText.trim()) continue;
+
+            // Remember where we are, so a refresh or reconnect resumes the same job
+            const idMatch = eventText.match(/^id: (.+)$/m);
+            if (idMatch) {
+              lastEventIdRef.current = idMatch[1];
+              localStorage.setItem(streamKey, idMatch[1].split(':')[0]);
+            }
+            
+            const event = parseSSEData(eventText);
+            if (event) {
+              handleStreamEvent(event);
+              if (FINAL_EVENTS.includes(event.type)) {
+                localStorage.removeItem(streamKey);
+                return true;
+              }
+            }
           }
         }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') throw error;
+        // Network failure mid-stream; the caller reconnects
+        return false;
+      }
+    };
+
+    try {
+      // After a refresh, replay the job that was already running for this diff
+      const savedJobId = force || skipRelevance ? null : localStorage.getItem(streamKey);
+      let response = savedJobId
+        ? await fetch(`/api/analyze-diff?jobId=${encodeURIComponent(savedJobId)}`, { signal: controller.signal })
+        : null;
+
+      if (!response?.ok) {
+        localStorage.removeItem(streamKey);
+        response = await fetch('/api/analyze-diff', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            diffId,
+            diffContent,
+            description,
+            labels,
+            force,
+            skipRelevance,
+            owner,
+            repo,
+            promptId,
+          }),
+          signal: controller.signal,
+        });
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to analyze diff: ${response.statusText}`);
+      }
+
+      let finished = await readEvents(response);
+
+      // Pick the stream back up from the last event received
+      for (let attempt = 1; !finished && lastEventIdRef.current && attempt <= MAX_RECONNECTS; attempt++) {
+        const resumed = await fetch('/api/analyze-diff', {
+          headers: { 'Last-Event-ID': lastEventIdRef.current },
+          signal: controller.signal,
+        });
+        if (!resumed.ok) break;
+        finished = await readEvents(resumed);
+      }
+
+      if (!finished) {
+        localStorage.removeItem(streamKey);
+        throw new Error('Lost the connection to the analysis stream');
       }
     } catch (error) {
       if (error instanceof Error && error.name !== 'AbortError') {
@@ -210,7 +376,7 @@ export const useDiffAnalysis = ({ diffId, diffContent, description, onNotesUpdat
     }
 
     return () => controller.abort();
-  }, [diffContent, diffId, description, handleStreamEvent, parseSSEData]);
+  }, [diffContent, diffId, description, labels, owner, repo, promptId, handleStreamEvent, parseSSEData]);
 
   /**
    * Resets the analysis state
@@ -220,8 +386,15 @@ export const useDiffAnalysis = ({ diffId, diffContent, description, onNotesUpdat
       loading: false,
       error: null,
       notes: null,
+      partialNotes: EMPTY_NOTES,
       streamProgress: '',
       messageInfo: null,
+      truncation: null,
+      mapReduce: null,
+      fileCoverage: {},
+      retry: null,
+      apiChanges: [],
+      cached: false,
     });
     isAnalyzingRef.current = false;
   }, []);
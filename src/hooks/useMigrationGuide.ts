@@ -0,0 +1,100 @@
+/**
+ * Custom hook for streaming a migration guide for a breaking PR
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import type { StreamEvent } from '@/types/diff-analyzer';
+
+interface UseMigrationGuideProps {
+  diffId: string;
+  diffContent: string;
+  description: string;
+  releaseNote?: string;
+  /** Called with the finished guide so it can be saved with the notes */
+  onComplete?: (guide: string) => void;
+}
+
+export const useMigrationGuide = ({ diffId, diffContent, description, releaseNote, onComplete }: UseMigrationGuideProps) => {
+  const [guide, setGuide] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isGeneratingRef = useRef(false);
+
+  /**
+   * Starts generating the guide, streaming its text into `guide`
+   */
+  const generate = useCallback(async () => {
+    if (!diffContent || isGeneratingRef.current) {
+      return;
+    }
+
+    isGeneratingRef.current = true;
+    setGuide('');
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/migration-guide', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ diffId, diffContent, description, releaseNote }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to generate migration guide: ${response.statusText}`);
+      }
+
+      if (!response.body) {
+        throw new Error('ReadableStream not supported');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Process Server-Sent Events
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const eventText of events) {
+          const dataMatch = eventText.match(/^data: (.+)$/m);
+          if (!dataMatch) continue;
+
+          const event = JSON.parse(dataMatch[1]) as StreamEvent;
+          if (event.type === 'progress' && typeof event.data === 'string') {
+            const delta = event.data;
+            setGuide(prev => prev + delta);
+          } else if (event.type === 'complete' && typeof event.data === 'string') {
+            setGuide(event.data);
+            onComplete?.(event.data);
+          } else if (event.type === 'error') {
+            throw new Error(event.error || 'An unknown error occurred');
+          }
+        }
+      }
+    } catch (err) {
+      if (err instanceof Error && err.name !== 'AbortError') {
+        setError(err.message || 'An error occurred while generating the migration guide');
+      }
+    } finally {
+      isGeneratingRef.current = false;
+      setLoading(false);
+    }
+  }, [diffId, diffContent, description, releaseNote, onComplete]);
+
+  return {
+    guide,
+    loading,
+    error,
+    generate,
+  };
+};
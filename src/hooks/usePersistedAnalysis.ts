@@ -1,46 +1,141 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { ReleaseNotes } from '@/types/diff-analyzer';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { normalizeReleaseNotes } from '@/lib/audiences';
+import { hashDiff } from '@/lib/diff-hash';
+import type { StoredNotes } from '@/lib/notes-store';
+import type { PersistedAnalysisState, PromptRef, ReleaseNotes } from '@/types/diff-analyzer';
 
-interface PersistedState {
-  notes: ReleaseNotes | null;
-  timestamp: number;
-  isComplete: boolean;
+const getStorageKey = (diffId: string) => `diff-analysis-${diffId}`;
+
+/**
+ * Parses a saved state, migrating notes saved before audiences were configurable
+ */
+const parseState = (saved: string): PersistedAnalysisState => {
+  const state = JSON.parse(saved) as PersistedAnalysisState;
+  return { ...state, notes: normalizeReleaseNotes(state.notes) };
+};
+
+/**
+ * Reads the saved analysis for a diff outside of the hook, e.g. for exporting
+ */
+export const readPersistedAnalysis = (diffId: string): PersistedAnalysisState | null => {
+  try {
+    const saved = localStorage.getItem(getStorageKey(diffId));
+    return saved ? parseState(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+interface NotesLocation {
+  owner?: string;
+  repo?: string;
+  /** Diff the notes describe; without it the server store is not used */
+  diffContent?: string;
 }
 
-export const usePersistedAnalysis = (diffId: string) => {
-  const storageKey = `diff-analysis-${diffId}`;
+/**
+ * Fetches notes already generated for this diff, by a teammate or in another browser
+ */
+const fetchStoredNotes = async (prId: string, diffHash: string, owner?: string, repo?: string): Promise<StoredNotes | null> => {
+  const params = new URLSearchParams({ prId, diffHash, ...(owner && { owner }), ...(repo && { repo }) });
+  const response = await fetch(`/api/notes?${params}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load stored notes: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const usePersistedAnalysis = (diffId: string, { owner, repo, diffContent }: NotesLocation = {}) => {
+  const storageKey = getStorageKey(diffId);
   
-  const [persistedState, setPersistedState] = useState<PersistedState | null>(null);
+  const [persistedState, setPersistedState] = useState<PersistedAnalysisState | null>(null);
+  // False until both localStorage and the server store have been checked
+  const [isLoaded, setIsLoaded] = useState(false);
+  const diffHashRef = useRef<string | null>(null);
   
-  // Restore state on mount
+  // Restore state on mount, preferring the shared server copy over this browser's
   useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
+
     const saved = localStorage.getItem(storageKey);
     if (saved) {
       try {
-        setPersistedState(JSON.parse(saved));
+        setPersistedState(parseState(saved));
       } catch {
         localStorage.removeItem(storageKey);
       }
     }
-  }, [storageKey]);
+
+    if (!diffContent) {
+      diffHashRef.current = null;
+      setIsLoaded(true);
+      return;
+    }
+
+    diffHashRef.current = hashDiff(diffContent);
+    fetchStoredNotes(diffId, diffHashRef.current, owner, repo)
+      .then(stored => {
+        if (cancelled || !stored) return;
+        const state: PersistedAnalysisState = {
+          notes: stored.notes,
+          timestamp: Date.parse(stored.updatedAt),
+          isComplete: true,
+          model: stored.model,
+          prompt: stored.prompt,
+        };
+        localStorage.setItem(storageKey, JSON.stringify(state));
+        setPersistedState(state);
+      })
+      .catch(error => {
+        if (process.env.NODE_ENV === 'development') {
+          console.error('Error loading stored notes:', error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey, diffId, owner, repo, diffContent]);
   
-  // Save state to localStorage
-  const saveState = useCallback((notes: ReleaseNotes | null, isComplete = false) => {
-    const state: PersistedState = {
+  // Save state to localStorage, and completed notes to the server store
+  const saveState = useCallback((notes: ReleaseNotes | null, isComplete = false, model?: string, prompt?: PromptRef) => {
+    const state: PersistedAnalysisState = {
       notes,
       timestamp: Date.now(),
-      isComplete
+      isComplete,
+      model,
+      prompt
     };
     localStorage.setItem(storageKey, JSON.stringify(state));
     setPersistedState(state);
-  }, [storageKey]);
+
+    const diffHash = diffHashRef.current;
+    if (notes && isComplete && diffHash) {
+      fetch('/api/notes', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ owner, repo, prId: diffId, diffHash, notes, model, prompt }),
+      })
+        .catch(error => {
+          // The local copy is already saved; sharing it is best-effort
+          if (process.env.NODE_ENV === 'development') {
+            console.error('Error storing notes:', error);
+          }
+        });
+    }
+  }, [storageKey, diffId, owner, repo]);
   
   // Cross-tab synchronization
   useEffect(() => {
     const handleStorageChange = (e: StorageEvent) => {
       if (e.key === storageKey && e.newValue) {
         try {
-          setPersistedState(JSON.parse(e.newValue));
+          setPersistedState(parseState(e.newValue));
         } catch {
           // Invalid data, ignore
         }
@@ -61,6 +156,7 @@ export const usePersistedAnalysis = (diffId: string) => {
     persistedState,
     saveState,
     clearState,
+    isLoaded,
     hasPersistedNotes: persistedState?.notes !== null,
     isComplete: persistedState?.isComplete || false
   };
@@ -0,0 +1,171 @@
+/**
+ * Custom hook for generating consolidated release notes for a set of PRs
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import type {
+  ReleaseDocument,
+  ReleaseDocumentState,
+  ReleaseItem,
+  ReleaseStreamEvent,
+  ReleaseStreamStart,
+} from '@/types/release-document';
+
+const INITIAL_STATE: ReleaseDocumentState = {
+  loading: false,
+  error: null,
+  total: 0,
+  items: [],
+  headline: null,
+  document: null,
+};
+
+interface UseReleaseDocumentProps {
+  owner?: string;
+  repo?: string;
+}
+
+export const useReleaseDocument = ({ owner, repo }: UseReleaseDocumentProps = {}) => {
+  const [state, setState] = useState<ReleaseDocumentState>(INITIAL_STATE);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Handles stream events from the release document API
+   */
+  const handleStreamEvent = useCallback((event: ReleaseStreamEvent) => {
+    switch (event.type) {
+      case 'start':
+        setState(prev => ({ ...prev, total: (event.data as ReleaseStreamStart).total }));
+        break;
+
+      case 'item': {
+        const item = event.data as ReleaseItem;
+        setState(prev => ({ ...prev, items: [...prev.items.filter(({ id }) => id !== item.id), item] }));
+        break;
+      }
+
+      case 'section':
+        // Sections are rebuilt from the items; the final document carries the ordering
+        break;
+
+      case 'summary':
+        setState(prev => ({ ...prev, headline: event.data as string }));
+        break;
+
+      case 'document':
+        setState(prev => ({ ...prev, document: event.data as ReleaseDocument }));
+        break;
+
+      case 'complete':
+        setState(prev => ({ ...prev, loading: false }));
+        break;
+
+      case 'error':
+        setState(prev => ({
+          ...prev,
+          loading: false,
+          error: event.error || 'An unknown error occurred',
+        }));
+        break;
+
+      default:
+        if (process.env.NODE_ENV === 'development') {
+          console.warn('Unknown event type:', event.type);
+        }
+    }
+  }, []);
+
+  /**
+   * Generates the release document for the given PR numbers
+   */
+  const generate = useCallback(async (prIds: string[]) => {
+    if (prIds.length === 0 || controllerRef.current) {
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState({ ...INITIAL_STATE, loading: true, total: prIds.length });
+
+    try {
+      const response = await fetch('/api/release-document', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ owner, repo, prIds }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Failed to generate release notes: ${response.statusText}`);
+      }
+
+      if (!response.body) {
+        throw new Error('ReadableStream not supported');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Process Server-Sent Events
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const eventText of events) {
+          const dataMatch = eventText.match(/^data: (.+)$/m);
+          if (!dataMatch) continue;
+
+          try {
+            handleStreamEvent(JSON.parse(dataMatch[1]) as ReleaseStreamEvent);
+          } catch (error) {
+            if (process.env.NODE_ENV === 'development') {
+              console.error('Error parsing SSE data:', eventText, error);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name !== 'AbortError') {
+        setState(prev => ({
+          ...prev,
+          error: error.message || 'An error occurred while generating release notes',
+        }));
+      }
+    } finally {
+      controllerRef.current = null;
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [owner, repo, handleStreamEvent]);
+
+  /**
+   * Stops an in-progress generation
+   */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Clears the generated document
+   */
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    setState(INITIAL_STATE);
+  }, []);
+
+  return {
+    ...state,
+    generate,
+    cancel,
+    reset,
+  };
+};
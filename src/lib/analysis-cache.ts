@@ -0,0 +1,100 @@
+/**
+ * Content-addressed cache of analysis results.
+ *
+ * Entries are keyed by a hash of everything that determines the model's
+ * output (the diff it saw, the PR title, the prompt version, the model and
+ * the temperature), so an unchanged PR is never sent to the model twice.
+ * The default cache writes one JSON file per entry under `ANALYSIS_CACHE_DIR`;
+ * set `ANALYSIS_CACHE=off` to disable it.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { GroundingIssue, ReleaseNotes } from '@/types/diff-analyzer';
+
+/**
+ * Inputs that determine the generated notes
+ */
+export interface AnalysisCacheKey {
+  /** The diff as sent to the model: truncated, or in full for map-reduce */
+  diff: string;
+  title: string;
+  promptVersion: string;
+  model: string;
+  temperature: number;
+  /** Anything else that changes the prompt or the checks applied to its output */
+  options?: Record<string, unknown>;
+}
+
+export interface CachedAnalysis {
+  /** Notes as the model wrote them, before the category is resolved from title and labels */
+  notes: ReleaseNotes;
+  unsupportedClaims: GroundingIssue[];
+  model: string;
+  /** ISO timestamp of when the notes were generated */
+  createdAt: string;
+}
+
+export interface AnalysisCache {
+  /** Resolves with null on a miss */
+  get(key: string): Promise<CachedAnalysis | null>;
+  set(key: string, entry: CachedAnalysis): Promise<void>;
+}
+
+export const DEFAULT_CACHE_DIR = '.data/analysis-cache';
+
+/**
+ * Hashes the key's parts into a cache key
+ */
+export const createAnalysisCacheKey = (key: AnalysisCacheKey): string => {
+  return createHash('sha256').update(JSON.stringify(key)).digest('hex');
+};
+
+/**
+ * Stores each entry as `<dir>/<first two hex chars>/<key>.json`
+ */
+export const createFileAnalysisCache = (dir: string = DEFAULT_CACHE_DIR): AnalysisCache => {
+  const root = path.resolve(process.cwd(), dir);
+
+  const fileFor = (key: string): string => {
+    if (!/^[0-9a-f]{64}$/.test(key)) {
+      throw new Error(`Invalid analysis cache key "${key}"`);
+    }
+    return path.join(root, key.slice(0, 2), `${key}.json`);
+  };
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async set(key, entry) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+
+      // Write then rename, so concurrent readers never see a half-written file
+      const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temp, `${JSON.stringify(entry, null, 2)}\n`, 'utf8');
+      await fs.rename(temp, file);
+    },
+  };
+};
+
+let cache: AnalysisCache | null = null;
+
+/**
+ * The cache configured by the environment, or undefined when caching is off
+ */
+export const getAnalysisCache = (): AnalysisCache | undefined => {
+  if (process.env.ANALYSIS_CACHE === 'off' || process.env.ANALYSIS_CACHE === 'false') {
+    return undefined;
+  }
+  cache ??= createFileAnalysisCache(process.env.ANALYSIS_CACHE_DIR || DEFAULT_CACHE_DIR);
+  return cache;
+};
@@ -0,0 +1,333 @@
+/**
+ * Server-side analysis jobs with buffered events.
+ *
+ * Every analysis runs as a job, independent of the HTTP request that started
+ * it. Jobs wait in a queue ordered by priority and run at most
+ * `ANALYSIS_CONCURRENCY` at a time (default 3). Every event a job emits is
+ * numbered and kept, so a client that reconnects (after a page refresh or a
+ * dropped connection) replays what it missed and keeps following the same
+ * generation instead of starting a second one. Finished jobs are kept for
+ * `JOB_TTL_MS` so late reconnects can still replay them.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  runAnalysis,
+  isAbortError,
+  type AnalysisContext,
+  type AnalysisOutcome,
+  type AnalysisRequest,
+} from '@/lib/analysis';
+import type { AnalysisJobDetail, AnalysisJobStatus, AnalysisJobSummary } from '@/types/analysis-jobs';
+import type { StreamEvent } from '@/types/diff-analyzer';
+
+export interface BufferedEvent {
+  /** Position in the job's stream, starting at 1 */
+  id: number;
+  event: StreamEvent;
+}
+
+export interface AnalysisJobOptions {
+  /** Higher runs first (default 0) */
+  priority?: number;
+  /** Called once the analysis completes, e.g. to store the notes; failures are logged */
+  onCompleted?: (outcome: Extract<AnalysisOutcome, { status: 'completed' }>) => Promise<void>;
+}
+
+interface JobEntry {
+  summary: AnalysisJobSummary;
+  notes?: AnalysisJobDetail['notes'];
+  events: BufferedEvent[];
+  listeners: Set<(buffered: BufferedEvent) => void>;
+  request: AnalysisRequest;
+  context: Omit<AnalysisContext, 'emit' | 'signal' | 'isClosed'>;
+  options: AnalysisJobOptions;
+  abortController: AbortController;
+}
+
+interface JobRegistry {
+  jobs: Map<string, JobEntry>;
+  queue: JobEntry[];
+  running: number;
+}
+
+// How long a finished job's events stay available for replay
+const JOB_TTL_MS = 10 * 60 * 1000;
+
+const DEFAULT_CONCURRENCY = 3;
+
+// Events that end a job's stream
+const TERMINAL_EVENTS: StreamEvent['type'][] = ['complete', 'message', 'error'];
+
+const FINISHED_STATUSES: AnalysisJobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+// Kept on globalThis so every route module (and dev-mode reloads) share one registry
+const globalRegistry = globalThis as unknown as { __analysisJobs?: JobRegistry };
+const registry: JobRegistry = globalRegistry.__analysisJobs ??= { jobs: new Map(), queue: [], running: 0 };
+
+const getConcurrency = (): number => {
+  return parseInt(process.env.ANALYSIS_CONCURRENCY || '', 10) || DEFAULT_CONCURRENCY;
+};
+
+export const isTerminalEvent = (event: StreamEvent): boolean => TERMINAL_EVENTS.includes(event.type);
+
+export const isFinishedStatus = (status: AnalysisJobStatus): boolean => FINISHED_STATUSES.includes(status);
+
+/**
+ * Formats the SSE `id:` of an event, e.g. `3f2c…:12`
+ */
+export const formatEventId = (jobId: string, eventId: number): string => `${jobId}:${eventId}`;
+
+/**
+ * Parses a `Last-Event-ID` header into the job and the last event the client saw
+ */
+export const parseEventId = (value: string | null): { jobId: string; lastEventId: number } | null => {
+  const match = value?.trim().match(/^([\w-]+):(\d+)$/);
+  return match ? { jobId: match[1], lastEventId: parseInt(match[2], 10) } : null;
+};
+
+const emit = (job: JobEntry, event: StreamEvent) => {
+  const buffered = { id: job.events.length + 1, event };
+  job.events.push(buffered);
+  job.summary.eventCount = job.events.length;
+  job.listeners.forEach(listener => listener(buffered));
+};
+
+const finish = (job: JobEntry, status: AnalysisJobStatus, event: StreamEvent) => {
+  emit(job, event);
+  job.summary.status = status;
+  job.summary.finishedAt = Date.now();
+  if (event.type === 'message' && typeof event.data === 'string') job.summary.message = event.data;
+  if (event.type === 'error') job.summary.message = event.error;
+  job.listeners.clear();
+  setTimeout(() => registry.jobs.delete(job.summary.id), JOB_TTL_MS).unref?.();
+};
+
+/**
+ * Runs a job to completion, then starts the next queued one
+ */
+const run = async (job: JobEntry) => {
+  const { signal } = job.abortController;
+  job.summary.status = 'running';
+  job.summary.startedAt = Date.now();
+
+  try {
+    const outcome = await runAnalysis(job.request, {
+      ...job.context,
+      emit: event => emit(job, event),
+      signal,
+    });
+
+    if (outcome.status === 'skipped') {
+      finish(job, 'succeeded', { type: 'message', data: outcome.message });
+    } else if (outcome.status === 'aborted') {
+      finish(job, signal.aborted ? 'cancelled' : 'failed', {
+        type: 'error',
+        error: signal.aborted ? 'Analysis was cancelled' : 'Analysis was aborted',
+      });
+    } else {
+      job.summary.model = outcome.model;
+      job.summary.prompt = outcome.prompt;
+      job.summary.cached = outcome.cached;
+      job.notes = outcome.notes;
+      try {
+        await job.options.onCompleted?.(outcome);
+      } catch (error) {
+        if (process.env.NODE_ENV === 'development') {
+          console.error('Error in analysis job completion handler:', error);
+        }
+      }
+      finish(job, 'succeeded', { type: 'complete' });
+    }
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development' && !isAbortError(error)) {
+      console.error('Error in analysis job:', error);
+    }
+    finish(job, signal.aborted ? 'cancelled' : 'failed', {
+      type: 'error',
+      error: signal.aborted
+        ? 'Analysis was cancelled'
+        : error instanceof Error ? error.message : 'Unknown error during analysis',
+    });
+  } finally {
+    registry.running--;
+    pump();
+  }
+};
+
+/**
+ * Starts queued jobs, highest priority first, while there are free slots
+ */
+const pump = () => {
+  while (registry.running < getConcurrency() && registry.queue.length > 0) {
+    const job = registry.queue.shift()!;
+    registry.running++;
+    void run(job);
+  }
+};
+
+/**
+ * Queues an analysis and returns its job straight away. The job's stream
+ * starts with `start` once it runs, and ends with `complete`, `message` or `error`.
+ */
+export const enqueueAnalysisJob = (
+  request: AnalysisRequest,
+  context: Omit<AnalysisContext, 'emit' | 'signal' | 'isClosed'>,
+  options: AnalysisJobOptions = {}
+): AnalysisJobSummary => {
+  const summary: AnalysisJobSummary = {
+    id: randomUUID(),
+    status: 'queued',
+    priority: options.priority ?? 0,
+    diffId: request.diffId,
+    description: request.description,
+    createdAt: Date.now(),
+    eventCount: 0,
+  };
+  const job: JobEntry = {
+    summary,
+    events: [],
+    listeners: new Set(),
+    request,
+    context,
+    options,
+    abortController: new AbortController(),
+  };
+  registry.jobs.set(summary.id, job);
+
+  // Stable insert: after every job of the same or higher priority
+  const index = registry.queue.findIndex(queued => queued.summary.priority < summary.priority);
+  registry.queue.splice(index === -1 ? registry.queue.length : index, 0, job);
+  pump();
+
+  return { ...summary };
+};
+
+export const getAnalysisJob = (id: string): AnalysisJobDetail | undefined => {
+  const job = registry.jobs.get(id);
+  return job && { ...job.summary, notes: job.notes };
+};
+
+/**
+ * Lists jobs, newest first, optionally only those with the given statuses
+ */
+export const listAnalysisJobs = (statuses?: AnalysisJobStatus[]): AnalysisJobSummary[] => {
+  return Array.from(registry.jobs.values())
+    .map(job => ({ ...job.summary }))
+    .filter(summary => !statuses || statuses.includes(summary.status))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Cancels a queued or running job. Returns the job, or undefined if it doesn't exist.
+ */
+export const cancelAnalysisJob = (id: string): AnalysisJobSummary | undefined => {
+  const job = registry.jobs.get(id);
+  if (!job) return undefined;
+
+  if (job.summary.status === 'queued') {
+    registry.queue.splice(registry.queue.indexOf(job), 1);
+    finish(job, 'cancelled', { type: 'error', error: 'Analysis was cancelled' });
+  } else if (job.summary.status === 'running') {
+    // The job finishes as cancelled once runAnalysis notices the signal
+    job.abortController.abort();
+  }
+
+  return { ...job.summary };
+};
+
+/**
+ * Replays the job's events after `lastEventId`, then forwards new ones as they
+ * are emitted. Returns a function that stops forwarding; the job keeps running.
+ */
+export const subscribeToJob = (
+  jobId: string,
+  lastEventId: number,
+  onEvent: (buffered: BufferedEvent) => void
+): (() => void) => {
+  const job = registry.jobs.get(jobId);
+  if (!job) return () => {};
+
+  job.events.filter(buffered => buffered.id > lastEventId).forEach(onEvent);
+  if (isFinishedStatus(job.summary.status)) return () => {};
+
+  job.listeners.add(onEvent);
+  return () => job.listeners.delete(onEvent);
+};
+
+/**
+ * Streams a job's events as SSE, starting after `lastEventId`. Each event carries
+ * an `id:` line so the client can resume with `Last-Event-ID` after a disconnect.
+ */
+export const createJobEventStream = (jobId: string, lastEventId: number): Response => {
+  const encoder = new TextEncoder();
+  let isClosed = false;
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+
+      // Helper function to safely enqueue data
+      const safeEnqueue = (data: Uint8Array) => {
+        if (!isClosed) {
+          try {
+            controller.enqueue(data);
+          } catch {
+            // Controller is already closed or errored
+            isClosed = true;
+            if (process.env.NODE_ENV === 'development') {
+              console.log('Controller already closed, stopping stream');
+            }
+          }
+        }
+      };
+
+      // Helper function to safely close controller
+      const safeClose = () => {
+        if (!isClosed) {
+          try {
+            controller.close();
+            isClosed = true;
+          } catch {
+            // Controller already closed
+            isClosed = true;
+          }
+        }
+      };
+
+      // Replay buffered events, then follow the job until it ends
+      unsubscribe = subscribeToJob(jobId, lastEventId, ({ id, event }) => {
+        safeEnqueue(encoder.encode(`id: ${formatEventId(jobId, id)}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (isTerminalEvent(event)) {
+          safeClose();
+        }
+      });
+
+      // The client had already seen every event of a finished job
+      const job = getAnalysisJob(jobId);
+      if (!job || isFinishedStatus(job.status)) {
+        safeClose();
+      }
+    },
+
+    cancel() {
+      // Called when the client disconnects. The job keeps running so the
+      // client can resume it; only this subscription stops.
+      isClosed = true;
+      unsubscribe();
+      if (process.env.NODE_ENV === 'development') {
+        console.log('Stream cancelled by client');
+      }
+    }
+  });
+
+  // Return the stream as a response with proper SSE headers
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'Content-Encoding': 'none'
+    }
+  });
+};
@@ -0,0 +1,142 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runAnalysis } from './analysis';
+import { createMockProvider } from './llm/mock';
+import type { NotesDelta, ReleaseNotes, RetryInfo, StreamEvent } from '@/types/diff-analyzer';
+
+const DIFF = 'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-old\n+export const retryMiddleware = 1;\n';
+
+/**
+ * Runs the analysis against one fixture in fixtures/llm, collecting its events
+ */
+const analyze = (fixture: string, controller = new AbortController(), onEvent?: (event: StreamEvent) => void) => {
+  const events: StreamEvent[] = [];
+  const emit = (event: StreamEvent) => {
+    events.push(event);
+    onEvent?.(event);
+  };
+  const outcome = runAnalysis(
+    { diffContent: DIFF, diffId: '1', description: 'Add retry middleware' },
+    { provider: createMockProvider({ fixture }), emit, signal: controller.signal }
+  );
+  return { events, outcome };
+};
+
+const typesOf = (events: StreamEvent[]) => events.map(event => event.type);
+
+// Streamed text per field, as the notes cards show it
+const streamedText = (events: StreamEvent[]) => {
+  const text: Record<string, string> = {};
+  for (const event of events) {
+    if (event.type !== 'notes-delta') continue;
+    const { field, delta } = event.data as NotesDelta;
+    text[field] = (text[field] ?? '') + delta;
+  }
+  return text;
+};
+
+const retriesOf = (events: StreamEvent[]) => events.filter(event => event.type === 'retry').map(event => event.data as RetryInfo);
+
+describe('runAnalysis with fixtures', () => {
+  it('default: streams the fields and completes with the notes', async () => {
+    const { events, outcome } = analyze('default');
+    const result = await outcome;
+
+    assert.equal(result.status, 'completed');
+    const { notes } = result as { notes: ReleaseNotes };
+    assert.deepEqual(notes.audiences, {
+      developer: 'Added `retryMiddleware` to API calls with exponential backoff for transient failures.',
+      marketing: '**Enhanced reliability** prevents disruptions during network issues.',
+    });
+    assert.deepEqual(notes.unsupportedClaims, []);
+
+    assert.equal(events[0].type, 'start');
+    assert.deepEqual(streamedText(events), notes.audiences);
+    assert.deepEqual(retriesOf(events), []);
+    assert.deepEqual(events.at(-1), { type: 'notes', data: notes });
+  });
+
+  it('fenced-json: reads notes out of a code fence and flags claims not in the diff', async () => {
+    const { events, outcome } = analyze('fenced-json');
+    const result = await outcome;
+
+    assert.equal(result.status, 'completed');
+    const { notes } = result as { notes: ReleaseNotes };
+    assert.equal(notes.audiences.developer, 'Optimized query batching in `fetchDiffs` to cut round trips.');
+    assert.deepEqual(notes.unsupportedClaims, [{ field: 'developer', claim: 'fetchDiffs', kind: 'identifier' }]);
+    assert.deepEqual(retriesOf(events), []);
+  });
+
+  it('repair-success: asks for a repair after malformed JSON and completes', async () => {
+    const { events, outcome } = analyze('repair-success');
+    const result = await outcome;
+
+    assert.equal(result.status, 'completed');
+    assert.equal((result as { notes: ReleaseNotes }).notes.audiences.marketing, '**More accurate release notes** for every pull request.');
+    assert.deepEqual(retriesOf(events), [{
+      attempt: 2,
+      maxAttempts: 3,
+      reason: 'validation',
+      errors: ['Response JSON object is incomplete (unbalanced braces or unterminated string)'],
+    }]);
+    assert.equal(events.at(-1)?.type, 'notes');
+  });
+
+  it('malformed-json: fails after every repair attempt', async () => {
+    const { events, outcome } = analyze('malformed-json');
+    await assert.rejects(outcome, /^Error: Model output failed validation after 3 attempts: Response JSON object is incomplete/);
+
+    assert.deepEqual(retriesOf(events).map(retry => retry.attempt), [2, 3]);
+    assert.ok(!typesOf(events).includes('notes'));
+  });
+
+  it('aliased-keys: reports the missing and unexpected fields', async () => {
+    const { events, outcome } = analyze('aliased-keys');
+    await assert.rejects(outcome, /Unexpected field\(s\): developerNotes, userNotes$/);
+
+    assert.deepEqual(retriesOf(events)[0].errors, [
+      'Missing required field "developer"',
+      'Missing required field "marketing"',
+      'Unexpected field(s): developerNotes, userNotes',
+    ]);
+    assert.ok(!typesOf(events).includes('notes-delta'));
+  });
+
+  it('prose: fails when no attempt contains JSON', async () => {
+    const { events, outcome } = analyze('prose');
+    await assert.rejects(outcome, /Response did not contain a JSON object$/);
+    assert.deepEqual(typesOf(events), ['start', 'retry', 'retry']);
+  });
+
+  it('refusal: fails when the model declines to answer', async () => {
+    const { events, outcome } = analyze('refusal');
+    await assert.rejects(outcome, /Response did not contain a JSON object$/);
+    assert.deepEqual(typesOf(events), ['start', 'retry', 'retry']);
+  });
+
+  it('provider-error: passes the provider error on without retrying', async () => {
+    const { events, outcome } = analyze('provider-error');
+    await assert.rejects(outcome, /^Error: 429 Rate limit reached for requests$/);
+    assert.deepEqual(typesOf(events), ['start']);
+  });
+
+  it('aborted: reports a dropped connection as aborted with its message', async () => {
+    const { events, outcome } = analyze('aborted');
+
+    assert.deepEqual(await outcome, { status: 'aborted', message: 'socket hang up (ECONNRESET)' });
+    assert.deepEqual(streamedText(events), { developer: 'Added `retryMiddleware` to API calls' });
+  });
+
+  it('slow: stops when the request is cancelled mid-stream', async () => {
+    const controller = new AbortController();
+    // Cancel as soon as the first text arrives
+    const { events, outcome } = analyze('slow', controller, event => {
+      if (event.type === 'notes-delta') controller.abort();
+    });
+
+    const result = await outcome;
+    assert.equal(result.status, 'aborted');
+    assert.ok(typesOf(events).includes('notes-delta'));
+    assert.ok(!typesOf(events).includes('notes'));
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * The release note analysis pipeline, independent of any transport.
+ *
+ * Runs relevance filtering, truncation or map-reduce, generation with
+ * validation and repair, and the grounding check, reporting intermediate
+ * results through `emit`. Results are cached when a cache is passed in.
+ * Routes wrap this in SSE; batch callers collect results.
+ */
+
+import { shouldIncludePR, type PR } from '@/lib/utils';
+import { truncateDiff } from '@/lib/diff-truncation';
+import { estimateTokens, getModelContextWindow } from '@/lib/models';
+import type { ChatMessage, LLMProvider } from '@/lib/llm';
+import { parseReleaseNotes, NOTES_FIELDS, RELEASE_NOTES_SCHEMA, RELEASE_NOTES_SCHEMA_NAME } from '@/lib/release-notes';
+import { createPartialJsonParser } from '@/lib/partial-json';
+import { parseDiff } from '@/lib/diff-parser';
+import { checkGrounding, createGroundingPrompt } from '@/lib/grounding';
+import { groupFilesForSummary, summarizeFileGroups } from '@/lib/map-reduce';
+import { createLLMPrompt, createReducePrompt, createRepairPrompt, resolveHashedPrompt } from '@/lib/prompts';
+import { formatPromptRef, type ResolvedPrompt } from '@/lib/prompt-registry';
+import { resolveCategory } from '@/lib/categorize';
+import { detectApiChanges } from '@/lib/api-surface';
+import { AUDIENCES, AUDIENCE_IDS, getNote } from '@/lib/audiences';
+import { createAnalysisCacheKey, type AnalysisCache, type CachedAnalysis } from '@/lib/analysis-cache';
+import type { AnalysisMode, MapReduceProgress, PromptRef, ReleaseNotes, StreamEvent } from '@/types/diff-analyzer';
+
+export interface AnalysisRequest {
+  diffContent: string;
+  diffId?: string;
+  description?: string;
+  mode?: AnalysisMode;
+  /** PR labels, used to categorize the change */
+  labels?: string[];
+  /** Regenerate once with a stricter prompt when the notes make unsupported claims */
+  strictGrounding?: boolean;
+  /** Skip the cache lookup and call the model; the new result still replaces the cached one */
+  force?: boolean;
+  /** Analyze the change even if the relevance filter would skip it */
+  skipRelevance?: boolean;
+  /** Prompt template, as `<id>` or `<id>@<version>` (see src/lib/prompt-registry.ts) */
+  promptId?: string;
+  /** Repository of the PR, for its prompt overrides */
+  owner?: string;
+  repo?: string;
+}
+
+export interface AnalysisContext {
+  provider: LLMProvider;
+  /** Receives intermediate events (progress, deltas, notes, retries) */
+  emit: (event: StreamEvent) => void;
+  signal: AbortSignal;
+  /** Reports whether the consumer has gone away, e.g. the SSE stream closed */
+  isClosed?: () => boolean;
+  /** Results cache; without one every analysis calls the model */
+  cache?: AnalysisCache;
+}
+
+export type AnalysisOutcome =
+  | { status: 'completed'; notes: ReleaseNotes; model: string; prompt: PromptRef; cached?: boolean }
+  | { status: 'skipped'; message: string }
+  // `message` is set when a provider error looked like an abort (e.g. a reset connection)
+  | { status: 'aborted'; message?: string };
+
+// Initial attempt plus repair retries before reporting an error
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Tokens held back for the model's response
+const RESPONSE_TOKEN_RESERVE = 1024;
+
+// Upper bound on diff tokens per request, regardless of context window size
+const DEFAULT_MAX_DIFF_TOKENS = 16000;
+
+// Keep temperature low for consistent output
+const NOTES_TEMPERATURE = 0.2;
+
+/**
+ * Computes how many tokens of diff fit in the prompt for the selected model's context window
+ */
+export const getDiffTokenBudget = (contextWindow: number, description: string, prompt?: ResolvedPrompt): number => {
+  const promptOverhead = estimateTokens(createLLMPrompt('', description, undefined, undefined, prompt));
+  const available = contextWindow - promptOverhead - RESPONSE_TOKEN_RESERVE;
+  const maxDiffTokens = parseInt(process.env.MAX_DIFF_TOKENS || '', 10) || DEFAULT_MAX_DIFF_TOKENS;
+
+  return Math.max(0, Math.min(available, maxDiffTokens));
+};
+
+/**
+ * Checks whether an error means the request was cancelled or the connection dropped
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && (
+    error.name === 'AbortError' ||
+    error.message.includes('aborted') ||
+    error.message.includes('ECONNRESET')
+  );
+};
+
+/**
+ * Runs the full analysis for one diff
+ */
+export const runAnalysis = async (
+  {
+    diffContent,
+    diffId,
+    description = '',
+    mode = 'auto',
+    labels = [],
+    strictGrounding = false,
+    force = false,
+    skipRelevance = false,
+    promptId,
+    owner,
+    repo,
+  }: AnalysisRequest,
+  { provider, emit, signal, isClosed = () => false, cache }: AnalysisContext
+): Promise<AnalysisOutcome> => {
+  const MODEL = provider.defaultModel;
+  const closed = () => isClosed() || signal.aborted;
+
+  // Select the prompt template and apply the repository's overrides
+  const prompt = resolveHashedPrompt({ promptId, owner, repo });
+
+  // Truncate diff to the model's token budget, keeping whole files and hunks where they fit
+  const diffBudget = getDiffTokenBudget(
+    provider.contextWindow ?? getModelContextWindow(MODEL),
+    description,
+    prompt
+  );
+  const { diff: truncatedDiff, summary: truncation } = truncateDiff(diffContent, diffBudget);
+
+  // Find breaking API changes statically, so they're reported whatever the model says
+  const files = parseDiff(diffContent);
+  const apiChanges = detectApiChanges(files);
+
+  // Summarize file groups separately when the diff doesn't fit in one prompt
+  const useMapReduce = mode === 'map-reduce' || (mode === 'auto' && truncation.truncated);
+
+  // Look up an earlier result for the same model input. The enabled audiences'
+  // config (instructions, length limits, format, examples) changes both the
+  // prompt and the shape of the notes, so all of it is part of the key, as are
+  // a repository's prompt overrides. The prompt version carries a hash of the
+  // prompt text, so rewording it also misses earlier entries.
+  const cacheKey = cache && createAnalysisCacheKey({
+    diff: useMapReduce ? diffContent : truncatedDiff,
+    title: description,
+    promptVersion: formatPromptRef(prompt.ref),
+    model: MODEL,
+    temperature: NOTES_TEMPERATURE,
+    options: {
+      useMapReduce,
+      strictGrounding,
+      audiences: AUDIENCES,
+      overrides: prompt.ref.repository
+        ? { rules: prompt.rules, audienceRules: prompt.audienceRules, example: prompt.example }
+        : undefined,
+    },
+  });
+  let cached: CachedAnalysis | null = null;
+  if (cache && cacheKey && !force) {
+    try {
+      cached = await cache.get(cacheKey);
+    } catch (error) {
+      // A broken cache entry only costs a fresh analysis
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Error reading analysis cache:', error);
+      }
+    }
+  }
+
+  emit({
+    type: 'start',
+    data: { diffId, model: cached?.model ?? MODEL, prompt: prompt.ref, ...(cached ? { cached: true } : {}) },
+  });
+
+  // Tell the client what was left out of the diff (map-reduce covers every file instead)
+  if (truncation.truncated && !useMapReduce) {
+    emit({ type: 'truncation', data: truncation });
+  }
+
+  // Check if PR is relevant using our deterministic filtering logic
+  const prData: PR = {
+    id: diffId || 'unknown',
+    description,
+    diff: truncatedDiff || '',
+    url: '',
+  };
+
+  if (!skipRelevance && !shouldIncludePR(prData)) {
+    return { status: 'skipped', message: 'PR is not relevant, skipping analysis.' };
+  }
+
+  if (apiChanges.length > 0) {
+    emit({ type: 'api-changes', data: apiChanges });
+  }
+
+  // Adds the resolved category, remaining unsupported claims and API changes to the model's notes
+  const finalizeNotes = (notes: ReleaseNotes, unsupportedClaims: CachedAnalysis['unsupportedClaims']): ReleaseNotes => ({
+    ...notes,
+    ...resolveCategory({ title: description, labels, category: notes.category, scope: notes.scope }),
+    unsupportedClaims,
+    apiChanges,
+  });
+
+  // Replay a cached result as one delta per field, then the final notes
+  if (cached) {
+    for (const field of AUDIENCE_IDS) {
+      emit({ type: 'notes-delta', data: { field, delta: getNote(cached.notes, field) } });
+    }
+    const finalNotes = finalizeNotes(cached.notes, cached.unsupportedClaims);
+    emit({ type: 'notes', data: finalNotes });
+    return { status: 'completed', notes: finalNotes, model: cached.model, prompt: prompt.ref, cached: true };
+  }
+
+  try {
+    // Create prompt for the LLM
+    let notesPrompt: string;
+    if (useMapReduce) {
+      const groups = groupFilesForSummary(diffContent, diffBudget);
+      const sendProgress = (progress: MapReduceProgress) => emit({ type: 'progress', data: progress });
+
+      // Map: summarize each group of files as its own completion
+      const summaries = await summarizeFileGroups(groups, {
+        description,
+        onProgress: sendProgress,
+        summarize: (groupPrompt) => provider.complete({
+          model: MODEL,
+          messages: [{ role: 'user', content: groupPrompt }],
+          temperature: NOTES_TEMPERATURE,
+          signal,
+        }),
+      });
+
+      if (closed()) return { status: 'aborted' };
+
+      if (!summaries.some(result => result.summary)) {
+        throw new Error('Failed to summarize any files in this PR');
+      }
+
+      // Reduce: write the notes from the per-file summaries
+      sendProgress({ stage: 'reduce', completed: summaries.length, total: summaries.length });
+      notesPrompt = createReducePrompt(summaries, description, groups.length - summaries.length, apiChanges, prompt);
+    } else {
+      notesPrompt = createLLMPrompt(truncatedDiff, description, truncation, apiChanges, prompt);
+    }
+
+    // Generates notes, asking the model to repair invalid output a bounded number of times.
+    // Resolves with null if the consumer went away.
+    const generateNotes = async (initialPrompt: string): Promise<ReleaseNotes | null> => {
+      const messages: ChatMessage[] = [{ role: 'user', content: initialPrompt }];
+      let generated: ReleaseNotes | null = null;
+      let validationErrors: string[] = [];
+
+      for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS && !generated; attempt++) {
+        if (attempt > 1) {
+          emit({
+            type: 'retry',
+            data: { attempt, maxAttempts: MAX_GENERATION_ATTEMPTS, reason: 'validation', errors: validationErrors },
+          });
+        }
+
+        // Queue for batching text chunks
+        let responseQueue: string[] = [];
+        let currentJson = '';
+        const fieldParser = createPartialJsonParser(NOTES_FIELDS);
+
+        // Start streaming the completion from the provider
+        const completion = provider.streamCompletion({
+          model: MODEL,
+          messages,
+          temperature: NOTES_TEMPERATURE,
+          signal,
+          responseFormat: { name: RELEASE_NOTES_SCHEMA_NAME, schema: RELEASE_NOTES_SCHEMA },
+        });
+
+        for await (const content of completion) {
+          // Check if connection was aborted
+          if (closed()) {
+            break;
+          }
+
+          if (content) {
+            // Add to the queue
+            responseQueue.push(content);
+            currentJson += content;
+
+            // Stream decoded field text so the cards fill in as tokens arrive
+            for (const { field, delta } of fieldParser.push(content)) {
+              emit({ type: 'notes-delta', data: { field, delta } });
+            }
+
+            // Send progress update after accumulating some text
+            if (responseQueue.length >= 5) {
+              emit({ type: 'progress', data: responseQueue.join('') });
+              responseQueue = [];
+            }
+
+            // Send the notes as soon as a complete, valid object has streamed
+            if (!generated && content.includes('}')) {
+              const result = parseReleaseNotes(currentJson);
+              if (result.valid) {
+                generated = result.notes;
+                emit({ type: 'notes', data: generated });
+              }
+            }
+          }
+        }
+
+        if (closed()) return null;
+        if (generated) break;
+
+        // Validate the full response once the stream has ended
+        const result = parseReleaseNotes(currentJson);
+        if (result.valid) {
+          generated = result.notes;
+          emit({ type: 'notes', data: generated });
+          break;
+        }
+
+        validationErrors = result.errors;
+        if (process.env.NODE_ENV === 'development') {
+          console.log(`Attempt ${attempt} failed validation:`, validationErrors);
+        }
+        messages.push(
+          { role: 'assistant', content: currentJson },
+          { role: 'user', content: createRepairPrompt(validationErrors) }
+        );
+      }
+
+      if (!generated) {
+        throw new Error(
+          `Model output failed validation after ${MAX_GENERATION_ATTEMPTS} attempts: ${validationErrors.join('; ')}`
+        );
+      }
+
+      return generated;
+    };
+
+    let notes = await generateNotes(notesPrompt);
+    if (!notes) return { status: 'aborted' };
+
+    // Check that code spans and numbers in the notes are backed by the diff
+    let unsupportedClaims = checkGrounding(notes, files, description);
+
+    if (unsupportedClaims.length > 0 && strictGrounding) {
+      emit({
+        type: 'retry',
+        data: {
+          attempt: 2,
+          maxAttempts: 2,
+          reason: 'grounding',
+          errors: unsupportedClaims.map(issue => `"${issue.claim}" not found in the diff`),
+        },
+      });
+
+      const stricter = await generateNotes(notesPrompt + createGroundingPrompt(unsupportedClaims));
+      if (!stricter) return { status: 'aborted' };
+
+      // Keep whichever version makes fewer unsupported claims
+      const stricterClaims = checkGrounding(stricter, files, description);
+      if (stricterClaims.length <= unsupportedClaims.length) {
+        notes = stricter;
+        unsupportedClaims = stricterClaims;
+      }
+    }
+
+    // Send the final notes with their resolved category and any claims that remain unsupported
+    const finalNotes = finalizeNotes(notes, unsupportedClaims);
+    emit({ type: 'notes', data: finalNotes });
+
+    if (cache && cacheKey) {
+      try {
+        await cache.set(cacheKey, { notes, unsupportedClaims, model: MODEL, createdAt: new Date().toISOString() });
+      } catch (error) {
+        if (process.env.NODE_ENV === 'development') {
+          console.error('Error writing analysis cache:', error);
+        }
+      }
+    }
+
+    return { status: 'completed', notes: finalNotes, model: MODEL, prompt: prompt.ref };
+  } catch (error) {
+    // Connection was aborted, let the caller close quietly
+    if (isAbortError(error)) {
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`${provider.name} stream aborted`);
+      }
+      return { status: 'aborted', message: error instanceof Error ? error.message : undefined };
+    }
+    throw error;
+  }
+};
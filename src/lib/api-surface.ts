@@ -0,0 +1,351 @@
+/**
+ * Static analysis of a TypeScript diff's public API surface.
+ *
+ * Compares the export declarations on removed lines with those on added lines
+ * to find removed or renamed exports, changed function signatures, narrowed
+ * union types, removed optional parameters and removed interface members.
+ * It works line by line, so declarations split across several lines are only
+ * compared by the text on their first line.
+ */
+
+import type { DiffFile, DiffHunk } from '@/lib/diff-parser';
+import type { ApiChange } from '@/types/diff-analyzer';
+
+type DeclarationKind = 'function' | 'const' | 'class' | 'interface' | 'type' | 'enum' | 'namespace' | 'export';
+
+interface Declaration {
+  kind: DeclarationKind;
+  name: string;
+  file: string;
+  /** Everything after the name, e.g. `(a: string): void {` */
+  signature: string;
+  line: string;
+}
+
+interface Member {
+  container: string;
+  name: string;
+  optional: boolean;
+  file: string;
+  line: string;
+}
+
+interface Parameter {
+  name: string;
+  optional: boolean;
+  type: string;
+}
+
+const DECLARATION = /^export\s+(?:declare\s+)?(?:default\s+)?(?:async\s+)?(?:abstract\s+)?(function\*?|const|let|var|class|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)(.*)$/;
+const EXPORT_LIST = /^export\s+(?:type\s+)?\{([^}]*)\}/;
+const CONTAINER = /^export\s+(?:declare\s+)?(?:default\s+)?(?:abstract\s+)?(?:interface|class)\s+([A-Za-z_$][\w$]*)[^{]*\{\s*$/;
+const MEMBER = /^\s+(?:readonly\s+|public\s+|static\s+)*([A-Za-z_$][\w$]*)(\?)?\s*[:(]/;
+
+// Placeholder for `=>` while splitting parameters on `=`
+const ARROW = '\u21d2';
+
+/**
+ * Only hand-written TypeScript sources and declaration files; tests are not public API
+ */
+export const isApiSourceFile = (path: string): boolean => {
+  return /\.(d\.)?[cm]?ts$/.test(path) && !/(\.test\.|\.spec\.|__tests__\/|(^|\/)tests?\/)/.test(path);
+};
+
+const normalizeKind = (kind: string): DeclarationKind => {
+  if (kind.startsWith('function')) return 'function';
+  if (kind === 'let' || kind === 'var') return 'const';
+  return kind as DeclarationKind;
+};
+
+const parseDeclarations = (content: string, file: string): Declaration[] => {
+  const line = content.trim();
+
+  const declaration = line.match(DECLARATION);
+  if (declaration) {
+    return [{ kind: normalizeKind(declaration[1]), name: declaration[2], file, signature: declaration[3].trim(), line }];
+  }
+
+  const list = line.match(EXPORT_LIST);
+  if (list) {
+    return list[1]
+      .split(',')
+      .map(entry => entry.trim().split(/\s+as\s+/).pop()?.replace(/^type\s+/, '').trim())
+      .filter((name): name is string => !!name)
+      .map(name => ({ kind: 'export', name, file, signature: '', line }));
+  }
+
+  return [];
+};
+
+/**
+ * Splits text on a separator, ignoring separators nested in brackets or strings
+ */
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char) || (char === '>' && text[i - 1] !== '=')) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+/**
+ * Extracts the parameter list of a function signature, or null if it isn't on this line
+ */
+const parseParameters = (signature: string): Parameter[] | null => {
+  const start = signature.indexOf('(');
+  if (start === -1) return null;
+
+  let depth = 0;
+  for (let i = start; i < signature.length; i++) {
+    if (signature[i] === '(') depth++;
+    else if (signature[i] === ')' && --depth === 0) {
+      return splitTopLevel(signature.slice(start + 1, i), ',').map(param => {
+        // Arrow types contain `=`, so hide them before looking for a default value
+        const [declaration, defaultValue] = splitTopLevel(param.replace(/=>/g, ARROW), '=');
+        const [head, ...typeParts] = splitTopLevel(declaration, ':');
+        return {
+          name: head.replace(/^\.\.\./, '').replace(/\?$/, ''),
+          optional: head.endsWith('?') || head.startsWith('...') || defaultValue !== undefined,
+          type: typeParts.join(':').replaceAll(ARROW, '=>'),
+        };
+      });
+    }
+  }
+
+  return null;
+};
+
+const unionMembers = (type: string): Set<string> => {
+  return new Set(splitTopLevel(type.replace(/;$/, ''), '|'));
+};
+
+/**
+ * A type is narrowed when every member of the new union was in the old one, and some are gone
+ */
+const isNarrowed = (before: string, after: string): boolean => {
+  const oldMembers = unionMembers(before);
+  const newMembers = unionMembers(after);
+  return (
+    oldMembers.size > 1 &&
+    newMembers.size < oldMembers.size &&
+    Array.from(newMembers).every(member => oldMembers.has(member))
+  );
+};
+
+const typeAliasValue = (signature: string): string | null => {
+  const match = signature.match(/^(?:<[^=]*>)?\s*=\s*(.+)$/);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Walks one side of a hunk, collecting members of exported interfaces and classes
+ * on the changed lines. Context lines are kept to know which container a change is in.
+ */
+const collectMembers = (hunk: DiffHunk, side: 'add' | 'del', file: string): Member[] => {
+  const members: Member[] = [];
+  let container = hunk.section.trim().match(CONTAINER)?.[1] ?? null;
+
+  for (const line of hunk.lines) {
+    if (line.type !== 'context' && line.type !== side) continue;
+
+    const opened = line.content.trim().match(CONTAINER);
+    if (opened) {
+      container = opened[1];
+      continue;
+    }
+    if (/^}/.test(line.content)) {
+      container = null;
+      continue;
+    }
+
+    const member = line.content.match(MEMBER);
+    if (container && member && line.type === side) {
+      members.push({ container, name: member[1], optional: !!member[2], file, line: line.content.trim() });
+    }
+  }
+
+  return members;
+};
+
+const compareFunctions = (before: Declaration, after: Declaration): ApiChange[] => {
+  const oldParams = parseParameters(before.signature);
+  const newParams = parseParameters(after.signature);
+  if (!oldParams || !newParams) return [];
+
+  const changes: ApiChange[] = [];
+  const base = { file: after.file, name: after.name, before: before.line, after: after.line };
+
+  newParams.forEach((param, index) => {
+    const previous = oldParams[index];
+    if (!previous) {
+      if (!param.optional) {
+        changes.push({ ...base, kind: 'signature-changed', detail: `adds required parameter \`${param.name}\`` });
+      }
+      return;
+    }
+    if (previous.optional && !param.optional) {
+      const detail = previous.name === param.name
+        ? `parameter \`${param.name}\` is now required`
+        : `optional parameter \`${previous.name}\` replaced by required \`${param.name}\``;
+      changes.push({ ...base, kind: 'signature-changed', detail });
+    }
+    if (previous.type && param.type && isNarrowed(previous.type, param.type)) {
+      changes.push({
+        ...base,
+        kind: 'type-narrowed',
+        detail: `parameter \`${param.name}\` narrowed from \`${previous.type}\` to \`${param.type}\``,
+      });
+    }
+  });
+
+  for (const removed of oldParams.slice(newParams.length)) {
+    changes.push(removed.optional
+      ? { ...base, kind: 'optional-param-removed', detail: `removes optional parameter \`${removed.name}\`` }
+      : { ...base, kind: 'signature-changed', detail: `removes parameter \`${removed.name}\`` });
+  }
+
+  return changes;
+};
+
+// Functions, and consts initialized with an arrow function
+const isFunctionLike = ({ kind, signature }: Declaration): boolean => {
+  return kind === 'function' || (kind === 'const' && /^=\s*(?:async\s+)?(?:<[^>]*>\s*)?\(/.test(signature));
+};
+
+const compareDeclarations = (before: Declaration, after: Declaration): ApiChange[] => {
+  if (isFunctionLike(before) && isFunctionLike(after)) {
+    return compareFunctions(before, after);
+  }
+
+  if (before.kind === 'type' && after.kind === 'type') {
+    const oldValue = typeAliasValue(before.signature);
+    const newValue = typeAliasValue(after.signature);
+    if (oldValue && newValue && isNarrowed(oldValue, newValue)) {
+      return [{
+        kind: 'type-narrowed',
+        file: after.file,
+        name: after.name,
+        detail: `narrowed from \`${oldValue.replace(/;$/, '')}\` to \`${newValue.replace(/;$/, '')}\``,
+        before: before.line,
+        after: after.line,
+      }];
+    }
+  }
+
+  return [];
+};
+
+/**
+ * Finds likely breaking changes to the exported API of the TypeScript files in a diff
+ */
+export const detectApiChanges = (files: DiffFile[]): ApiChange[] => {
+  const removed: Declaration[] = [];
+  const added = new Map<string, Declaration>();
+  const removedMembers: Member[] = [];
+  const addedMembers = new Map<string, Member>();
+
+  for (const file of files) {
+    if (file.isBinary || !isApiSourceFile(file.path)) continue;
+
+    for (const hunk of file.hunks) {
+      for (const line of hunk.lines) {
+        if (line.type === 'del') removed.push(...parseDeclarations(line.content, file.oldPath || file.path));
+        if (line.type === 'add') {
+          for (const declaration of parseDeclarations(line.content, file.path)) {
+            added.set(declaration.name, declaration);
+          }
+        }
+      }
+
+      removedMembers.push(...collectMembers(hunk, 'del', file.oldPath || file.path));
+      for (const member of collectMembers(hunk, 'add', file.path)) {
+        addedMembers.set(`${member.container}.${member.name}`, member);
+      }
+    }
+  }
+
+  const changes: ApiChange[] = [];
+  const removedNames = new Set(removed.map(declaration => declaration.name));
+
+  for (const declaration of removed) {
+    const replacement = added.get(declaration.name);
+    if (replacement) {
+      changes.push(...compareDeclarations(declaration, replacement));
+      continue;
+    }
+
+    // A new export of the same kind and signature, in place of this one, is a rename.
+    // Plain values like `= 1;` match too easily to count.
+    const renamed = /[(:{]/.test(declaration.signature) && Array.from(added.values()).find(candidate =>
+      !removedNames.has(candidate.name) &&
+      candidate.kind === declaration.kind &&
+      candidate.signature === declaration.signature
+    );
+
+    changes.push(renamed
+      ? {
+          kind: 'export-renamed',
+          file: declaration.file,
+          name: declaration.name,
+          detail: `renamed to \`${renamed.name}\``,
+          before: declaration.line,
+          after: renamed.line,
+        }
+      : {
+          kind: 'export-removed',
+          file: declaration.file,
+          name: declaration.name,
+          detail: `${declaration.kind === 'export' ? 'export' : declaration.kind} removed`,
+          before: declaration.line,
+        });
+  }
+
+  for (const member of removedMembers) {
+    const name = `${member.container}.${member.name}`;
+    const replacement = addedMembers.get(name);
+    // Members of an export that was removed outright are already covered
+    if (removedNames.has(member.container) && !added.has(member.container)) continue;
+
+    if (!replacement) {
+      changes.push({ kind: 'member-removed', file: member.file, name, detail: 'member removed', before: member.line });
+    } else if (member.optional && !replacement.optional) {
+      changes.push({
+        kind: 'signature-changed',
+        file: replacement.file,
+        name,
+        detail: 'member is now required',
+        before: member.line,
+        after: replacement.line,
+      });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Formats findings as facts for the prompt
+ */
+export const formatApiChanges = (changes: ApiChange[]): string => {
+  return changes.map(change => `- \`${change.name}\` (${change.file}): ${change.detail}`).join('\n');
+};
@@ -0,0 +1,99 @@
+/**
+ * Audience profiles for release notes, loaded from `src/config/audiences.json`.
+ *
+ * Each enabled audience gets its own note in the model's response. The prompt,
+ * response schema, validation and note cards are all generated from this list,
+ * so adding an audience only means adding an entry to the config file.
+ */
+
+import config from '@/config/audiences.json';
+import type { ReleaseNotes } from '@/types/diff-analyzer';
+
+export type AudienceColor = 'blue' | 'green' | 'purple' | 'amber' | 'red' | 'gray';
+
+export interface AudienceFormat {
+  /** The note must be one sentence */
+  singleSentence: boolean;
+  /** Technical terms go in markdown code spans */
+  codeSpans: boolean;
+  /** The main benefit is in bold */
+  boldBenefit: boolean;
+}
+
+export interface Audience {
+  /** Key of the note in the model's response and in `ReleaseNotes.audiences` */
+  id: string;
+  name: string;
+  icon: string;
+  color: AudienceColor;
+  /** Short description used in the response schema */
+  description: string;
+  instructions: string[];
+  maxLength: number;
+  format: AudienceFormat;
+  /** A note for this audience about a PR that adds retries, shown in the prompt */
+  example: string;
+  /** Defaults to true */
+  enabled?: boolean;
+}
+
+export interface AudienceConfig {
+  /** Audience whose note describes a PR in changelogs and release documents */
+  primary: string;
+  /** Audience whose note is used for user-facing summaries and headlines */
+  summary: string;
+  audiences: Audience[];
+}
+
+const audienceConfig = config as AudienceConfig;
+
+export const AUDIENCES: Audience[] = audienceConfig.audiences.filter(audience => audience.enabled !== false);
+
+export const AUDIENCE_IDS: string[] = AUDIENCES.map(audience => audience.id);
+
+// Fall back to the first audience if the configured one is missing or disabled
+export const PRIMARY_AUDIENCE = AUDIENCE_IDS.includes(audienceConfig.primary) ? audienceConfig.primary : AUDIENCE_IDS[0];
+export const SUMMARY_AUDIENCE = AUDIENCE_IDS.includes(audienceConfig.summary) ? audienceConfig.summary : AUDIENCE_IDS[0];
+
+export const isAudienceId = (value: unknown): value is string => {
+  return typeof value === 'string' && AUDIENCE_IDS.includes(value);
+};
+
+export const getAudience = (id: string): Audience | undefined => {
+  return AUDIENCES.find(audience => audience.id === id);
+};
+
+/**
+ * Notes with an empty string for every audience, for streaming into
+ */
+export const createEmptyNotes = (): ReleaseNotes => ({
+  audiences: Object.fromEntries(AUDIENCE_IDS.map(id => [id, ''])),
+});
+
+/**
+ * The note for one audience, or an empty string if it wasn't generated
+ */
+export const getNote = (notes: ReleaseNotes, id: string): string => {
+  return notes.audiences[id] ?? '';
+};
+
+/**
+ * Accepts notes in the current shape, or saved before audiences were configurable,
+ * when `developer` and `marketing` were top-level fields. Returns null for anything else.
+ */
+export const normalizeReleaseNotes = (value: unknown): ReleaseNotes | null => {
+  if (value === null || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+
+  if (typeof record.audiences === 'object' && record.audiences !== null) {
+    const audiences = Object.entries(record.audiences).filter(([, note]) => typeof note === 'string');
+    return { ...record, audiences: Object.fromEntries(audiences) } as ReleaseNotes;
+  }
+
+  if (typeof record.developer === 'string' && typeof record.marketing === 'string') {
+    const { developer, marketing, ...rest } = record;
+    return { ...rest, audiences: { developer, marketing } } as ReleaseNotes;
+  }
+
+  return null;
+};
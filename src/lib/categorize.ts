@@ -0,0 +1,115 @@
+/**
+ * Change categorization from conventional commit prefixes, PR labels and the model
+ */
+
+import type { ChangeCategory } from '@/types/diff-analyzer';
+
+export const CHANGE_CATEGORIES: ChangeCategory[] = ['breaking', 'security', 'feature', 'fix', 'perf', 'other'];
+
+// Conventional commit types; anything else (docs, chore, refactor, ...) is `other`
+const PREFIX_CATEGORIES: Record<string, ChangeCategory> = {
+  feat: 'feature',
+  feature: 'feature',
+  fix: 'fix',
+  bugfix: 'fix',
+  perf: 'perf',
+  security: 'security',
+  sec: 'security',
+};
+
+// Label names (lowercased) checked in this order, so `breaking` wins over `enhancement`
+const LABEL_CATEGORIES: [RegExp, ChangeCategory][] = [
+  [/breaking/, 'breaking'],
+  [/security|vulnerability|cve/, 'security'],
+  [/perf|performance/, 'perf'],
+  [/bug|fix|regression/, 'fix'],
+  [/feat|enhancement/, 'feature'],
+];
+
+export interface ConventionalTitle {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+}
+
+export interface CategoryInput {
+  title: string;
+  labels?: string[];
+  /** Category the model suggested */
+  category?: ChangeCategory;
+  /** Scope the model suggested */
+  scope?: string;
+}
+
+export const isChangeCategory = (value: unknown): value is ChangeCategory => {
+  return CHANGE_CATEGORIES.includes(value as ChangeCategory);
+};
+
+/**
+ * Parses a `type(scope)!: subject` prefix from a PR title
+ */
+export const parseConventionalTitle = (title: string): ConventionalTitle | null => {
+  const match = title.trim().match(/^(\w+)(?:\(([^)]*)\))?(!)?:\s/);
+  if (!match) return null;
+
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2]?.trim() || undefined,
+    breaking: !!match[3],
+  };
+};
+
+const categoryFromLabels = (labels: string[]): ChangeCategory | null => {
+  const names = labels.map(label => label.toLowerCase());
+  for (const [pattern, category] of LABEL_CATEGORIES) {
+    if (names.some(name => pattern.test(name))) return category;
+  }
+  return null;
+};
+
+/**
+ * Guesses a category from the title's wording, for titles without a conventional prefix
+ */
+const categoryFromKeywords = (title: string): ChangeCategory | null => {
+  if (/\bbreaking\b/i.test(title)) return 'breaking';
+  if (/\b(security|vulnerab|cve-\d)/i.test(title)) return 'security';
+  if (/^(fix|resolve|correct)/i.test(title)) return 'fix';
+  if (/\b(faster|speed up|optimi[sz]e)/i.test(title)) return 'perf';
+  if (/^(add|introduce|support)\b/i.test(title)) return 'feature';
+  return null;
+};
+
+/**
+ * Returns the category the PR declares itself through its title prefix or labels,
+ * or null if only the model or the title's wording could tell
+ */
+export const getDeclaredCategory = (title: string, labels: string[] = []): ChangeCategory | null => {
+  const conventional = parseConventionalTitle(title);
+  if (conventional?.breaking) return 'breaking';
+
+  const labelCategory = categoryFromLabels(labels);
+  if (labelCategory === 'breaking') return 'breaking';
+
+  // Prefixes like `chore:` or `docs:` only say the change is minor; a label can say more
+  const prefixCategory = conventional ? PREFIX_CATEGORIES[conventional.type] : undefined;
+  return prefixCategory ?? labelCategory ?? (conventional ? 'other' : null);
+};
+
+/**
+ * Resolves a category and scope: conventional prefix first, then labels, then the model,
+ * then the title's wording
+ */
+export const resolveCategory = ({ title, labels = [], category, scope }: CategoryInput): {
+  category: ChangeCategory;
+  scope?: string;
+} => {
+  const resolved = getDeclaredCategory(title, labels)
+    ?? (isChangeCategory(category) ? category : null)
+    ?? categoryFromKeywords(title)
+    ?? 'other';
+
+  return {
+    category: resolved,
+    scope: parseConventionalTitle(title)?.scope ?? (scope?.trim() || undefined),
+  };
+};
@@ -0,0 +1,231 @@
+/**
+ * Renders stored release notes as a changelog file.
+ *
+ * Supports Keep a Changelog Markdown, plain Markdown with PR links, a JSON
+ * document with metadata, and standalone HTML. Pure functions, so the same
+ * output is produced by the UI download and the `/api/changelog` route.
+ */
+
+import { resolveCategory } from '@/lib/categorize';
+import { AUDIENCES, PRIMARY_AUDIENCE, getNote } from '@/lib/audiences';
+import type { ChangeCategory, ReleaseNotes } from '@/types/diff-analyzer';
+
+export type ChangelogFormat = 'keep-a-changelog' | 'markdown' | 'json' | 'html';
+
+export const CHANGELOG_FORMATS: { id: ChangelogFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'keep-a-changelog', label: 'Keep a Changelog', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+];
+
+/**
+ * One PR's stored notes, as read from the persisted analysis state
+ */
+export interface ChangelogEntry {
+  id: string;
+  title: string;
+  url: string;
+  notes: ReleaseNotes;
+  model?: string;
+  /** When the notes were generated, in milliseconds */
+  timestamp?: number;
+}
+
+export interface ChangelogOptions {
+  /** Release version heading; defaults to "Unreleased" */
+  version?: string;
+  /** Release date as YYYY-MM-DD; defaults to today */
+  date?: string;
+  /** Repository the PRs belong to, e.g. "openai/openai-node" */
+  repository?: string;
+}
+
+export interface ChangelogFile {
+  content: string;
+  filename: string;
+  mimeType: string;
+}
+
+// Keep a Changelog change types for each category
+const KEEP_A_CHANGELOG_TYPES: { type: string; categories: ChangeCategory[] }[] = [
+  { type: 'Added', categories: ['feature'] },
+  { type: 'Changed', categories: ['breaking', 'perf', 'other'] },
+  { type: 'Fixed', categories: ['fix'] },
+  { type: 'Security', categories: ['security'] },
+];
+
+export const isChangelogFormat = (value: unknown): value is ChangelogFormat => {
+  return CHANGELOG_FORMATS.some(format => format.id === value);
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Notes saved before categorization was added fall back to the PR title
+const categoryOf = (entry: ChangelogEntry): ChangeCategory => {
+  return entry.notes.category ?? resolveCategory({ title: entry.title }).category;
+};
+
+/**
+ * Returns the entry's URL if it's a web link, so posted `javascript:` URLs never become links
+ */
+const safeUrl = ({ url }: ChangelogEntry): string | null => {
+  try {
+    return url && ['http:', 'https:'].includes(new URL(url).protocol) ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const prLink = (entry: ChangelogEntry) => {
+  const url = safeUrl(entry);
+  return url ? `[#${entry.id}](${url})` : `#${entry.id}`;
+};
+
+const renderKeepAChangelog = (entries: ChangelogEntry[], { version, date = today() }: ChangelogOptions): string => {
+  const lines = [
+    '# Changelog',
+    '',
+    'All notable changes to this project will be documented in this file.',
+    '',
+    'The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).',
+    '',
+    version ? `## [${version}] - ${date}` : '## [Unreleased]',
+  ];
+
+  for (const { type, categories } of KEEP_A_CHANGELOG_TYPES) {
+    const matching = entries.filter(entry => categories.includes(categoryOf(entry)));
+    if (matching.length === 0) continue;
+
+    lines.push('', `### ${type}`, '');
+    for (const entry of matching) {
+      const breaking = categoryOf(entry) === 'breaking' ? '**Breaking:** ' : '';
+      const scope = entry.notes.scope ? `**${entry.notes.scope}:** ` : '';
+      lines.push(`- ${breaking}${scope}${getNote(entry.notes, PRIMARY_AUDIENCE)} (${prLink(entry)})`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+const renderMarkdown = (entries: ChangelogEntry[], { version, repository }: ChangelogOptions): string => {
+  const title = ['Release notes', repository, version].filter(Boolean).join(' – ');
+  const lines = [`# ${title}`];
+
+  for (const entry of entries) {
+    lines.push(
+      '',
+      `## ${prLink(entry)} ${entry.title}`,
+      '',
+      ...AUDIENCES.map(audience => `- **${audience.name}:** ${getNote(entry.notes, audience.id)}`)
+    );
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+const renderJson = (entries: ChangelogEntry[], { version, date = today(), repository }: ChangelogOptions): string => {
+  return JSON.stringify({
+    repository: repository ?? null,
+    version: version ?? null,
+    date,
+    generatedAt: new Date().toISOString(),
+    entries: entries.map(entry => ({
+      // Local sources identify changes by commit SHA, which may start with digits
+      number: /^\d+$/.test(entry.id) ? parseInt(entry.id, 10) : entry.id,
+      title: entry.title,
+      url: entry.url,
+      category: categoryOf(entry),
+      scope: entry.notes.scope ?? null,
+      model: entry.model ?? null,
+      timestamp: entry.timestamp ? new Date(entry.timestamp).toISOString() : null,
+      notes: entry.notes.audiences,
+    })),
+  }, null, 2) + '\n';
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Converts the inline markdown used in notes (code, bold, italics) to HTML
+ */
+const inlineMarkdownToHtml = (text: string): string => {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>');
+};
+
+const renderHtml = (entries: ChangelogEntry[], options: ChangelogOptions): string => {
+  const { version, date = today(), repository } = options;
+  const title = escapeHtml(['Release notes', repository, version].filter(Boolean).join(' – '));
+
+  const items = entries.map(entry => {
+    const url = safeUrl(entry);
+    const link = url
+      ? `<a href="${escapeHtml(url)}">#${escapeHtml(entry.id)}</a>`
+      : `#${escapeHtml(entry.id)}`;
+    return `    <li>
+      <h2>${link} ${escapeHtml(entry.title)}</h2>
+${AUDIENCES.map(audience => `      <p class="${audience.id}">${inlineMarkdownToHtml(getNote(entry.notes, audience.id))}</p>`).join('\n')}
+    </li>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+    ul { list-style: none; padding: 0; }
+    li { border-bottom: 1px solid #e5e7eb; padding: 1rem 0; }
+    h2 { font-size: 1.1rem; margin: 0 0 0.5rem; }
+    code { background: #f3f4f6; padding: 0 0.25rem; border-radius: 0.25rem; }
+    li p:not(:first-of-type) { color: #4b5563; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p><time datetime="${escapeHtml(date)}">${escapeHtml(date)}</time></p>
+  <ul>
+${items.join('\n')}
+  </ul>
+</body>
+</html>
+`;
+};
+
+const renderers: Record<ChangelogFormat, (entries: ChangelogEntry[], options: ChangelogOptions) => string> = {
+  'keep-a-changelog': renderKeepAChangelog,
+  markdown: renderMarkdown,
+  json: renderJson,
+  html: renderHtml,
+};
+
+/**
+ * Renders the entries in the given format, along with a filename and MIME type for downloading
+ */
+export const renderChangelog = (
+  entries: ChangelogEntry[],
+  format: ChangelogFormat,
+  options: ChangelogOptions = {}
+): ChangelogFile => {
+  const { extension, mimeType } = CHANGELOG_FORMATS.find(({ id }) => id === format)!;
+  // The version ends up in a Content-Disposition header, so only safe filename characters are kept
+  const version = options.version?.replace(/[^\w.-]/g, '');
+  const basename = format === 'keep-a-changelog' ? 'CHANGELOG' : `release-notes${version ? `-${version}` : ''}`;
+
+  return {
+    content: renderers[format](entries, options),
+    filename: `${basename}.${extension}`,
+    mimeType,
+  };
+};
@@ -0,0 +1,15 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { hashDiff } from './diff-hash';
+
+const nodeHash = (text: string) => createHash('sha256').update(text).digest('hex').slice(0, 16);
+
+describe('hashDiff', () => {
+  it('matches SHA-256 across padding boundaries and multi-byte text', () => {
+    const inputs = ['', 'abc', 'a'.repeat(55), 'a'.repeat(56), 'a'.repeat(64), 'x'.repeat(1000), 'diff --git a/ü.ts b/ü.ts\n+// 🚀\n'];
+    for (const input of inputs) {
+      assert.equal(hashDiff(input), nodeHash(input));
+    }
+  });
+});
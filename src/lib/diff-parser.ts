@@ -0,0 +1,249 @@
+/**
+ * Unified diff parser for the raw `application/vnd.github.v3.diff` output.
+ *
+ * Turns a diff string into typed files, hunks and lines so that filtering,
+ * ranking, truncation and the UI all reason about the same model instead of
+ * pattern-matching `+` and `-` characters in the raw text.
+ */
+
+export type DiffLineType = 'add' | 'del' | 'context';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldNumber?: number;
+  newNumber?: number;
+  /** Set when the line was followed by "\ No newline at end of file" */
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Function or section context that git prints after the range */
+  section: string;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
+export interface DiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  /** The path to display: the new path unless the file was deleted */
+  path: string;
+  status: DiffFileStatus;
+  isBinary: boolean;
+  oldMode?: string;
+  newMode?: string;
+  similarity?: number;
+  /** Extended header lines between `diff --git` and the first hunk, verbatim */
+  headerLines: string[];
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffStats {
+  files: number;
+  additions: number;
+  deletions: number;
+  changes: number;
+}
+
+const FILE_HEADER = /^diff --git a\/(.+?) b\/(.+)$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Strips the `a/` or `b/` prefix from a `---`/`+++` path, returning null for /dev/null
+ */
+const parseMarkerPath = (value: string): string | null => {
+  const path = value.split('\t')[0].trim();
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+};
+
+const createFile = (oldPath: string | null, newPath: string | null): DiffFile => ({
+  oldPath,
+  newPath,
+  path: newPath ?? oldPath ?? '',
+  status: 'modified',
+  isBinary: false,
+  headerLines: [],
+  hunks: [],
+  additions: 0,
+  deletions: 0,
+});
+
+/**
+ * Parses a unified git diff into files, hunks and lines
+ */
+export const parseDiff = (raw: string): DiffFile[] => {
+  const files: DiffFile[] = [];
+  const lines = raw.replace(/\r\n/g, '\n').split('\n');
+
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of lines) {
+    const fileMatch = line.match(FILE_HEADER);
+    if (fileMatch) {
+      file = createFile(fileMatch[1], fileMatch[2]);
+      file.headerLines.push(line);
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+
+    // Anything before the first `diff --git` line is not part of a file
+    if (!file) continue;
+
+    // Inside a hunk, lines are consumed by the counts in the hunk header so
+    // that content such as "--- foo" or "+++ bar" is never mistaken for a header
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line[0];
+      const content = line.slice(1);
+
+      if (marker === '+') {
+        hunk.lines.push({ type: 'add', content, newNumber: newLine++ });
+        file.additions++;
+        newRemaining--;
+        continue;
+      }
+      if (marker === '-') {
+        hunk.lines.push({ type: 'del', content, oldNumber: oldLine++ });
+        file.deletions++;
+        oldRemaining--;
+        continue;
+      }
+      if (marker === ' ' || line === '') {
+        hunk.lines.push({ type: 'context', content, oldNumber: oldLine++, newNumber: newLine++ });
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+      if (marker === '\\') {
+        const last = hunk.lines[hunk.lines.length - 1];
+        if (last) last.noNewline = true;
+        continue;
+      }
+      // Malformed hunk: fall through and treat the line as a header
+    }
+
+    if (hunk && line.startsWith('\\')) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) last.noNewline = true;
+      continue;
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      hunk = {
+        header: line,
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+        newStart: parseInt(hunkMatch[3], 10),
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+        section: hunkMatch[5] || '',
+        lines: [],
+      };
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    // Extended header lines only appear before the first hunk
+    if (file.hunks.length > 0 || line === '') continue;
+    file.headerLines.push(line);
+
+    if (line.startsWith('--- ')) {
+      file.oldPath = parseMarkerPath(line.slice(4));
+    } else if (line.startsWith('+++ ')) {
+      file.newPath = parseMarkerPath(line.slice(4));
+    } else if (line.startsWith('new file mode ')) {
+      file.status = 'added';
+      file.newMode = line.slice('new file mode '.length);
+      file.oldPath = null;
+    } else if (line.startsWith('deleted file mode ')) {
+      file.status = 'deleted';
+      file.oldMode = line.slice('deleted file mode '.length);
+      file.newPath = null;
+    } else if (line.startsWith('old mode ')) {
+      file.oldMode = line.slice('old mode '.length);
+    } else if (line.startsWith('new mode ')) {
+      file.newMode = line.slice('new mode '.length);
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      file.status = 'renamed';
+      file.newPath = line.slice('rename to '.length);
+    } else if (line.startsWith('copy from ')) {
+      file.status = 'copied';
+      file.oldPath = line.slice('copy from '.length);
+    } else if (line.startsWith('copy to ')) {
+      file.status = 'copied';
+      file.newPath = line.slice('copy to '.length);
+    } else if (line.startsWith('similarity index ')) {
+      file.similarity = parseInt(line.slice('similarity index '.length), 10);
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.isBinary = true;
+    }
+
+    file.path = file.newPath ?? file.oldPath ?? file.path;
+  }
+
+  return files;
+};
+
+/**
+ * Sums additions and deletions across parsed files
+ */
+export const getDiffStats = (files: DiffFile[]): DiffStats => {
+  const additions = files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+  return {
+    files: files.length,
+    additions,
+    deletions,
+    changes: additions + deletions,
+  };
+};
+
+/**
+ * Renders a single hunk back to unified diff text
+ */
+export const formatDiffHunk = (hunk: DiffHunk): string => {
+  const body = hunk.lines.map(line => {
+    const prefix = line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' ';
+    const text = `${prefix}${line.content}`;
+    return line.noNewline ? `${text}\n\\ No newline at end of file` : text;
+  });
+
+  return [hunk.header, ...body].join('\n');
+};
+
+/**
+ * Renders a file back to unified diff text, optionally with only a subset of its hunks
+ */
+export const formatDiffFile = (file: DiffFile, hunks: DiffHunk[] = file.hunks): string => {
+  return [...file.headerLines, ...hunks.map(formatDiffHunk)].join('\n');
+};
+
+/**
+ * Renders parsed files back to a unified diff string
+ */
+export const formatDiff = (files: DiffFile[]): string => {
+  return files.map(file => formatDiffFile(file)).join('\n');
+};
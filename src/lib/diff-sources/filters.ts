@@ -0,0 +1,75 @@
+/**
+ * Reading, validating and applying merged-PR search filters
+ */
+
+import { isValidRef } from '@/lib/local-git';
+import type { PR } from '@/lib/utils';
+import type { ChangeFilters } from '@/types/change-filters';
+
+// Query parameters holding comma-separated lists
+const LIST_PARAMS = ['labels', 'excludeLabels'] as const;
+const TEXT_PARAMS = ['mergedAfter', 'mergedBefore', 'author', 'baseBranch', 'search'] as const;
+
+const DATE = /^\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Reads the filters from query parameters, leaving out empty ones
+ */
+export const readChangeFilters = (params: URLSearchParams): ChangeFilters => {
+  const filters: ChangeFilters = {};
+
+  for (const name of TEXT_PARAMS) {
+    const value = params.get(name)?.trim();
+    if (value) filters[name] = value;
+  }
+
+  for (const name of LIST_PARAMS) {
+    const values = (params.get(name) ?? '').split(',').map(value => value.trim()).filter(Boolean);
+    if (values.length > 0) filters[name] = values;
+  }
+
+  return filters;
+};
+
+export const hasChangeFilters = (filters: ChangeFilters): boolean => Object.keys(filters).length > 0;
+
+/**
+ * Describes the first invalid filter, or returns null if they're all valid
+ */
+export const getChangeFiltersError = (filters: ChangeFilters): string | null => {
+  for (const name of ['mergedAfter', 'mergedBefore'] as const) {
+    const value = filters[name];
+    if (value !== undefined && (!DATE.test(value) || isNaN(Date.parse(value)))) {
+      return `${name} must be a date (YYYY-MM-DD) or ISO timestamp`;
+    }
+  }
+
+  if (filters.mergedAfter && filters.mergedBefore && Date.parse(filters.mergedAfter) >= Date.parse(filters.mergedBefore)) {
+    return 'mergedAfter must be earlier than mergedBefore';
+  }
+
+  if (filters.baseBranch !== undefined && !isValidRef(filters.baseBranch)) {
+    return 'baseBranch must be a branch name';
+  }
+
+  return null;
+};
+
+/**
+ * Checks a PR's metadata against the filters. A filter on metadata the PR
+ * doesn't have (such as labels from a local checkout) doesn't match.
+ */
+export const matchesChangeFilters = (pr: Omit<PR, 'diff'>, filters: ChangeFilters): boolean => {
+  const labels = (pr.labels ?? []).map(label => label.toLowerCase());
+  const mergedAt = pr.mergedAt ? Date.parse(pr.mergedAt) : NaN;
+
+  if (filters.mergedAfter && !(mergedAt >= Date.parse(filters.mergedAfter))) return false;
+  if (filters.mergedBefore && !(mergedAt < Date.parse(filters.mergedBefore))) return false;
+  if (filters.labels?.some(label => !labels.includes(label.toLowerCase()))) return false;
+  if (filters.excludeLabels?.some(label => labels.includes(label.toLowerCase()))) return false;
+  if (filters.author && pr.author?.toLowerCase() !== filters.author.toLowerCase()) return false;
+  if (filters.baseBranch && pr.baseBranch !== filters.baseBranch) return false;
+  if (filters.search && !pr.description.toLowerCase().includes(filters.search.toLowerCase())) return false;
+
+  return true;
+};
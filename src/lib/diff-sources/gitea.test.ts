@@ -0,0 +1,192 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGiteaSource } from './gitea';
+import { startStubServer, type StubServer } from './stub-server';
+
+const REPO = '/api/v1/repos/owner/repo';
+
+const DIFF = 'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-old\n+new\n';
+
+const pullRequest = (number: number, extra: Record<string, unknown> = {}) => ({
+  number,
+  title: `PR ${number}`,
+  html_url: `https://gitea.example.com/owner/repo/pulls/${number}`,
+  merged: true,
+  labels: [{ name: 'feature' }],
+  user: { login: 'zed' },
+  base: { ref: 'main' },
+  merged_at: '2025-06-10T12:00:00Z',
+  ...extra,
+});
+
+describe('createGiteaSource', () => {
+  let server: StubServer;
+
+  before(async () => {
+    server = await startStubServer(url => {
+      const path = url.pathname;
+
+      if (path === `${REPO}/pulls`) {
+        // A full first page (padded with unmerged PRs), a short second one, then nothing
+        const page = url.searchParams.get('page');
+        if (page === '1') {
+          const unmerged = Array.from({ length: 46 }, (_, i) => pullRequest(100 + i, { merged: false }));
+          return { body: [pullRequest(1), pullRequest(2, { merged: false }), pullRequest(3), pullRequest(4, { labels: [{ name: 'internal' }] }), ...unmerged] };
+        }
+        return { body: page === '2' ? [pullRequest(7, { labels: [{ name: 'internal' }] }), pullRequest(8)] : [] };
+      }
+      const single = path.match(/^\/api\/v1\/repos\/owner\/repo\/pulls\/(\d+)$/);
+      if (single && ['1', '3', '5', '6'].includes(single[1])) {
+        return { body: pullRequest(Number(single[1]), single[1] === '6' ? { labels: [{ name: 'internal' }] } : {}) };
+      }
+      if (path === `${REPO}/pulls/3.diff`) {
+        return { status: 502, body: 'Bad Gateway' };
+      }
+      if (/^\/api\/v1\/repos\/owner\/repo\/pulls\/\d+\.diff$/.test(path)) {
+        return { body: DIFF };
+      }
+      if (path === `${REPO}/compare/v1.0.0...main`) {
+        // Newest first, like git log
+        return { body: { commits: [
+          { sha: 'ccc', commit: { message: 'Direct push' } },
+          { sha: 'bbb', commit: { message: "Merge pull request 'PR 6' (#6) from feature into main" } },
+          { sha: 'ddd', commit: { message: 'PR 3 (#3)' } },
+          { sha: 'aaa', commit: { message: 'PR 5 (#5)\n\nSquashed' } },
+        ] } };
+      }
+      if (path === `${REPO}/commits/ccc/pull`) {
+        return { body: pullRequest(1) };
+      }
+      if (path === '/api/v1/repos/owner/private/pulls') {
+        return { status: 401, body: { message: 'token is required' } };
+      }
+      return undefined;
+    });
+  });
+
+  after(() => server.close());
+
+  const source = () => createGiteaSource({ baseUrl: server.baseUrl, token: 'secret' });
+
+  it('lists merged PRs with their diffs, skipping unmerged PRs and failed diffs', async () => {
+    server.requests.length = 0;
+    const { prs, hasMore } = await source().listMerged({ owner: 'owner', repo: 'repo', page: 1, perPage: 4 });
+
+    // #3's diff fails to load
+    assert.deepEqual(prs.map(pr => pr.id), ['1', '4', '7']);
+    assert.equal(hasMore, true);
+    assert.equal(prs[0].diff, DIFF);
+    assert.equal(prs[0].author, 'zed');
+    assert.deepEqual(prs[0].labels, ['feature']);
+
+    // The first list page held too few merged PRs, so the next one was read
+    const lists = server.requests.filter(request => request.url.startsWith(`${REPO}/pulls?`)).map(request => new URL(request.url, 'http://stub'));
+    assert.deepEqual(lists.map(list => list.searchParams.get('page')), ['1', '2']);
+    assert.equal(lists[0].searchParams.get('state'), 'closed');
+    assert.equal(lists[0].searchParams.get('limit'), '50');
+    assert.ok(!server.requests.some(request => request.url.endsWith('/pulls/2.diff')));
+  });
+
+  it('ends paging when the list runs out', async () => {
+    const { prs, hasMore } = await source().listMerged({ owner: 'owner', repo: 'repo', page: 2, perPage: 4 });
+    assert.deepEqual(prs.map(pr => pr.id), ['8']);
+    assert.equal(hasMore, false);
+  });
+
+  it('reads on until a page of filtered PRs is found, checking filters before fetching diffs', async () => {
+    server.requests.length = 0;
+    const filters = { excludeLabels: ['internal'] };
+
+    const first = await source().listMerged({ owner: 'owner', repo: 'repo', page: 1, perPage: 2, filters });
+    assert.deepEqual(first.prs.map(pr => pr.id), ['1']);
+    assert.equal(first.hasMore, true);
+
+    const second = await source().listMerged({ owner: 'owner', repo: 'repo', page: 2, perPage: 2, filters });
+    assert.deepEqual(second.prs.map(pr => pr.id), ['8']);
+    assert.equal(second.hasMore, false);
+
+    assert.ok(!server.requests.some(request => /\/pulls\/[47]\.diff$/.test(request.url)));
+  });
+
+  it('sends the token in the Authorization header', async () => {
+    server.requests.length = 0;
+    await source().getChange('owner', 'repo', '1');
+
+    assert.ok(server.requests.length > 0);
+    for (const request of server.requests) {
+      assert.equal(request.headers.authorization, 'token secret');
+    }
+  });
+
+  it('sends no Authorization header without a token', async () => {
+    server.requests.length = 0;
+    await createGiteaSource({ baseUrl: server.baseUrl }).getChange('owner', 'repo', '1');
+    assert.equal(server.requests[0].headers.authorization, undefined);
+  });
+
+  it('rejects with the status when the list request fails', async () => {
+    await assert.rejects(
+      source().listMerged({ owner: 'owner', repo: 'private', page: 1, perPage: 5 }),
+      /^Error: 401 Unauthorized from \/api\/v1\/repos\/owner\/private\/pulls$/
+    );
+  });
+
+  it('lists the PRs in a range, newest first', async () => {
+    const { prs, hasMore } = await source().listRange({ owner: 'owner', repo: 'repo', base: 'v1.0.0', head: 'main', page: 1, perPage: 5 });
+    // #3's diff fails to load
+    assert.deepEqual(prs.map(pr => pr.id), ['1', '6', '5']);
+    assert.equal(hasMore, false);
+  });
+
+  it('pages a range by PR', async () => {
+    const first = await source().listRange({ owner: 'owner', repo: 'repo', base: 'v1.0.0', head: 'main', page: 1, perPage: 2 });
+    assert.deepEqual(first.prs.map(pr => pr.id), ['1', '6']);
+    assert.equal(first.hasMore, true);
+
+    const last = await source().listRange({ owner: 'owner', repo: 'repo', base: 'v1.0.0', head: 'main', page: 2, perPage: 2 });
+    assert.deepEqual(last.prs.map(pr => pr.id), ['5']);
+    assert.equal(last.hasMore, false);
+  });
+
+  it('keeps paging a range past a PR whose diff fails', async () => {
+    const { prs, hasMore } = await source().listRange({ owner: 'owner', repo: 'repo', base: 'v1.0.0', head: 'main', page: 3, perPage: 1 });
+    assert.deepEqual(prs, []);
+    assert.equal(hasMore, true);
+  });
+
+  it('filters a range by PR details before fetching diffs', async () => {
+    server.requests.length = 0;
+    const filters = { excludeLabels: ['internal'] };
+
+    const first = await source().listRange({ owner: 'owner', repo: 'repo', base: 'v1.0.0', head: 'main', page: 1, perPage: 2, filters });
+    // #6 is filtered out and #3's diff fails to load
+    assert.deepEqual(first.prs.map(pr => pr.id), ['1']);
+    assert.equal(first.hasMore, true);
+
+    const last = await source().listRange({ owner: 'owner', repo: 'repo', base: 'v1.0.0', head: 'main', page: 2, perPage: 2, filters });
+    assert.deepEqual(last.prs.map(pr => pr.id), ['5']);
+    assert.equal(last.hasMore, false);
+
+    assert.ok(!server.requests.some(request => request.url.endsWith('/pulls/6.diff')));
+  });
+
+  it('returns null from getChange for missing PRs, failed diffs and non-numeric ids', async () => {
+    assert.equal(await source().getChange('owner', 'repo', '404'), null);
+    assert.equal(await source().getChange('owner', 'repo', '3'), null);
+    assert.equal(await source().getChange('owner', 'repo', 'abc'), null);
+  });
+
+  it('returns a PR from getChange', async () => {
+    const pr = await source().getChange('owner', 'repo', '5');
+    assert.deepEqual(pr, {
+      id: '5',
+      description: 'PR 5',
+      url: 'https://gitea.example.com/owner/repo/pulls/5',
+      labels: ['feature'],
+      author: 'zed',
+      baseBranch: 'main',
+      mergedAt: '2025-06-10T12:00:00Z',
+      diff: DIFF,
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Diff source backed by the Gitea REST API (also used by Forgejo)
+ */
+
+import type { PR } from '@/lib/utils';
+import { matchesChangeFilters } from './filters';
+import { requestJson, requestText, trimBaseUrl } from './http';
+import { findMatchingPage } from './paging';
+import { fetchRangePage, parsePullRequestNumber, resolveRangeIds } from './range';
+import type { DiffSource } from './types';
+
+interface GiteaSourceOptions {
+  baseUrl: string;
+  token?: string;
+}
+
+interface GiteaPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  merged: boolean;
+  labels?: { name?: string }[];
+  user?: { login: string } | null;
+  base?: { ref: string };
+  merged_at?: string | null;
+}
+
+interface GiteaCompare {
+  commits: { sha: string; commit: { message: string } }[];
+}
+
+// Pull requests per page of the list API (Gitea's default maximum)
+const LIST_PAGE_SIZE = 50;
+
+const toPRInfo = (pr: GiteaPullRequest): Omit<PR, 'diff'> => ({
+  id: String(pr.number),
+  description: pr.title,
+  url: pr.html_url,
+  labels: (pr.labels ?? []).map(label => label.name).filter((name): name is string => !!name),
+  author: pr.user?.login,
+  baseBranch: pr.base?.ref,
+  mergedAt: pr.merged_at ?? undefined,
+});
+
+export const createGiteaSource = ({ baseUrl, token }: GiteaSourceOptions): DiffSource => {
+  const api = `${trimBaseUrl(baseUrl)}/api/v1`;
+  const headers: Record<string, string> = token ? { Authorization: `token ${token}` } : {};
+
+  const repoUrl = (owner: string, repo: string) => `${api}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+  /**
+   * Fetches a pull request's raw diff, returning null if it can't be accessed
+   */
+  const toPR = async (owner: string, repo: string, pr: GiteaPullRequest): Promise<PR | null> => {
+    try {
+      const diff = await requestText(`${repoUrl(owner, repo)}/pulls/${pr.number}.diff`, headers);
+      return { ...toPRInfo(pr), diff };
+    } catch (error) {
+      // Skip PRs that can't be accessed (rate limits, permissions, etc.)
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`Skipping PR #${pr.number}:`, error instanceof Error ? error.message : error);
+      }
+      return null;
+    }
+  };
+
+  /**
+   * Fetches a pull request without its diff, returning null if it can't be found
+   */
+  const getPullRequest = async (owner: string, repo: string, id: string): Promise<GiteaPullRequest | null> => {
+    if (!/^\d+$/.test(id)) return null;
+    try {
+      return await requestJson<GiteaPullRequest>(`${repoUrl(owner, repo)}/pulls/${id}`, headers);
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error(`Error fetching PR #${id}:`, error);
+      }
+      return null;
+    }
+  };
+
+  const getChange = async (owner: string, repo: string, id: string): Promise<PR | null> => {
+    const pr = await getPullRequest(owner, repo, id);
+    return pr && toPR(owner, repo, pr);
+  };
+
+  return {
+    name: 'gitea',
+
+    listMerged: async ({ owner, repo, page, perPage, filters = {} }) => {
+      // Closed PRs include unmerged ones, which are dropped like on GitHub.
+      // The list can't be searched by these filters, so pages of it are read until enough match.
+      const { items, hasMore } = await findMatchingPage(
+        async batch => {
+          const closed = await requestJson<GiteaPullRequest[]>(
+            `${repoUrl(owner, repo)}/pulls?state=closed&sort=recentupdate&page=${batch}&limit=${LIST_PAGE_SIZE}`,
+            headers
+          );
+          return { items: closed, done: closed.length < LIST_PAGE_SIZE };
+        },
+        pr => pr.merged && matchesChangeFilters(toPRInfo(pr), filters),
+        page,
+        perPage
+      );
+      const prs = await Promise.all(items.map(pr => toPR(owner, repo, pr)));
+      return { prs: prs.filter((pr): pr is PR => pr !== null), hasMore };
+    },
+
+    listRange: async ({ owner, repo, base, head, page, perPage, filters = {} }) => {
+      // Commits come back newest first, like `git log`
+      const { commits } = await requestJson<GiteaCompare>(
+        `${repoUrl(owner, repo)}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`,
+        headers
+      );
+
+      const numbers = await resolveRangeIds(
+        commits.map(commit => ({ sha: commit.sha, message: commit.commit.message })).reverse(),
+        parsePullRequestNumber,
+        async sha => {
+          const pr = await requestJson<GiteaPullRequest>(`${repoUrl(owner, repo)}/commits/${sha}/pull`, headers);
+          return pr.merged ? String(pr.number) : null;
+        }
+      );
+
+      return fetchRangePage(numbers, page, perPage, filters, {
+        getDetails: number => getPullRequest(owner, repo, number),
+        toInfo: toPRInfo,
+        withDiff: pr => toPR(owner, repo, pr),
+      });
+    },
+
+    getChange,
+  };
+};
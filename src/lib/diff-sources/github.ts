@@ -0,0 +1,138 @@
+/**
+ * Diff source backed by the GitHub API (see src/lib/github.ts)
+ */
+
+import { fetchPullRequestDiff, getPullRequest, getPullRequestSummary, octokit, toPRInfo, type PullRequestSummary } from '@/lib/github';
+import type { PR } from '@/lib/utils';
+import type { ChangeFilters } from '@/types/change-filters';
+import { hasChangeFilters, matchesChangeFilters } from './filters';
+import { findMatchingPage, type Batch } from './paging';
+import { fetchRangePage, parsePullRequestNumber, resolveRangeIds, type RangeCommit } from './range';
+import type { DiffSource } from './types';
+
+// Pull requests per page of the list and search APIs (their maximum)
+const LIST_PAGE_SIZE = 100;
+
+// Commits per page of the compare API, and the most pages read for one range
+const COMPARE_PER_PAGE = 100;
+const MAX_COMPARE_PAGES = 10;
+
+/**
+ * Lists the commits between two refs, oldest first
+ */
+const compareCommits = async (owner: string, repo: string, base: string, head: string): Promise<RangeCommit[]> => {
+  const commits: RangeCommit[] = [];
+  for (let page = 1; page <= MAX_COMPARE_PAGES; page++) {
+    const { data } = await octokit.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      per_page: COMPARE_PER_PAGE,
+      page,
+    });
+    commits.push(...data.commits.map(commit => ({ sha: commit.sha, message: commit.commit.message })));
+    if (data.commits.length < COMPARE_PER_PAGE) break;
+  }
+  return commits;
+};
+
+// Quotes a search term, dropping quotes it can't contain
+const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+
+/**
+ * Turns filters into an issue search query for a repository's merged PRs
+ */
+const buildSearchQuery = (owner: string, repo: string, filters: ChangeFilters): string => {
+  const { mergedAfter, mergedBefore, labels = [], excludeLabels = [], author, baseBranch, search } = filters;
+  const terms = [`repo:${owner}/${repo}`, 'is:pr', 'is:merged'];
+
+  // Search dates are inclusive; matchesChangeFilters makes mergedBefore exclusive
+  if (mergedAfter && mergedBefore) terms.push(`merged:${mergedAfter}..${mergedBefore}`);
+  else if (mergedAfter) terms.push(`merged:>=${mergedAfter}`);
+  else if (mergedBefore) terms.push(`merged:<${mergedBefore}`);
+
+  terms.push(...labels.map(label => `label:${quote(label)}`));
+  terms.push(...excludeLabels.map(label => `-label:${quote(label)}`));
+  if (author) terms.push(`author:${author.replace(/\s/g, '')}`);
+  if (baseBranch) terms.push(`base:${baseBranch}`);
+  if (search) terms.push(`${quote(search)} in:title`);
+
+  return terms.join(' ');
+};
+
+/**
+ * Reads one page of merged PRs matching the filters through the search API
+ */
+const searchMergedPullRequests = async (owner: string, repo: string, filters: ChangeFilters, page: number): Promise<Batch<PullRequestSummary>> => {
+  const { data } = await octokit.request('GET /search/issues', {
+    q: buildSearchQuery(owner, repo, filters),
+    sort: 'created',
+    order: 'desc',
+    per_page: LIST_PAGE_SIZE,
+    page,
+  });
+
+  const items = data.items
+    .flatMap((item): PullRequestSummary[] => (item.pull_request?.url ? [{
+      url: item.pull_request.url,
+      number: item.number,
+      title: item.title,
+      html_url: item.html_url,
+      labels: item.labels,
+      user: item.user,
+      merged_at: item.pull_request.merged_at,
+      // Search results don't include the base branch, which the query already matched
+      base: filters.baseBranch ? { ref: filters.baseBranch } : undefined,
+    }] : []));
+
+  return { items, done: data.items.length < LIST_PAGE_SIZE };
+};
+
+/**
+ * Reads one page of closed PRs, which include unmerged ones
+ */
+const listClosedPullRequests = async (owner: string, repo: string, page: number): Promise<Batch<PullRequestSummary>> => {
+  const { data } = await octokit.pulls.list({ owner, repo, state: 'closed', per_page: LIST_PAGE_SIZE, page });
+  return { items: data, done: data.length < LIST_PAGE_SIZE };
+};
+
+export const createGitHubSource = (): DiffSource => ({
+  name: 'github',
+
+  listMerged: async ({ owner, repo, page, perPage, filters = {} }) => {
+    // Filtered lists are searched, so only matching PRs are read and have their diffs fetched
+    const { items, hasMore } = await findMatchingPage(
+      batch => (hasChangeFilters(filters)
+        ? searchMergedPullRequests(owner, repo, filters, batch)
+        : listClosedPullRequests(owner, repo, batch)),
+      pr => Boolean(pr.merged_at) && matchesChangeFilters(toPRInfo(pr), filters),
+      page,
+      perPage
+    );
+    const prs = await Promise.all(items.map(fetchPullRequestDiff));
+    return { prs: prs.filter((pr): pr is PR => pr !== null), hasMore };
+  },
+
+  listRange: async ({ owner, repo, base, head, page, perPage, filters = {} }) => {
+    const commits = await compareCommits(owner, repo, base, head);
+
+    // Commits that don't name their PR (e.g. rebase merges) are matched through the API
+    const numbers = await resolveRangeIds(commits, parsePullRequestNumber, async sha => {
+      const { data } = await octokit.repos.listPullRequestsAssociatedWithCommit({ owner, repo, commit_sha: sha });
+      const merged = data.find(pr => pr.merged_at);
+      return merged ? String(merged.number) : null;
+    });
+
+    return fetchRangePage(numbers, page, perPage, filters, {
+      getDetails: number => getPullRequestSummary(owner, repo, parseInt(number, 10)),
+      toInfo: toPRInfo,
+      withDiff: fetchPullRequestDiff,
+    });
+  },
+
+  getChange: async (owner, repo, id) => {
+    // Pull requests are identified by number
+    if (!/^\d+$/.test(id)) return null;
+    return getPullRequest(owner, repo, parseInt(id, 10));
+  },
+});
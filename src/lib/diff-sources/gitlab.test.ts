@@ -0,0 +1,207 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGitLabSource, formatGitLabDiff } from './gitlab';
+import { startStubServer, type StubServer } from './stub-server';
+
+const PROJECT = '/api/v4/projects/group%2Fsub%2Fproject';
+
+const fileDiff = (path: string) => ({
+  old_path: path,
+  new_path: path,
+  new_file: false,
+  renamed_file: false,
+  deleted_file: false,
+  diff: '@@ -1 +1 @@\n-old\n+new\n',
+});
+
+const mergeRequest = (iid: number, extra: Record<string, unknown> = {}) => ({
+  iid,
+  title: `MR ${iid}`,
+  web_url: `https://gitlab.example.com/group/sub/project/-/merge_requests/${iid}`,
+  labels: ['feature'],
+  author: { username: 'ann' },
+  target_branch: 'main',
+  merged_at: '2025-06-10T12:00:00Z',
+  state: 'merged',
+  ...extra,
+});
+
+describe('formatGitLabDiff', () => {
+  it('rebuilds the git headers of modified files', () => {
+    assert.equal(
+      formatGitLabDiff([fileDiff('src/a.ts')]),
+      'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-old\n+new\n'
+    );
+  });
+
+  it('marks new, deleted and renamed files', () => {
+    const diff = formatGitLabDiff([
+      { ...fileDiff('src/new.ts'), new_file: true, b_mode: '100755', diff: '@@ -0,0 +1 @@\n+new\n' },
+      { ...fileDiff('src/gone.ts'), deleted_file: true, diff: '@@ -1 +0,0 @@\n-old\n' },
+      { ...fileDiff('src/to.ts'), old_path: 'src/from.ts', renamed_file: true, diff: '' },
+    ]);
+
+    assert.equal(diff, [
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100755',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1 @@',
+      '+new',
+      'diff --git a/src/gone.ts b/src/gone.ts',
+      'deleted file mode 100644',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-old',
+      'diff --git a/src/from.ts b/src/to.ts',
+      'rename from src/from.ts',
+      'rename to src/to.ts',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('createGitLabSource', () => {
+  let server: StubServer;
+
+  before(async () => {
+    server = await startStubServer(url => {
+      const path = url.pathname;
+
+      if (path === `${PROJECT}/merge_requests`) {
+        return { body: [mergeRequest(1), mergeRequest(2, { labels: ['internal'] })] };
+      }
+      if (path === `${PROJECT}/merge_requests/1` || path === `${PROJECT}/merge_requests/3`) {
+        return { body: mergeRequest(Number(path.split('/').pop())) };
+      }
+      if (path === `${PROJECT}/merge_requests/1/diffs` || path === `${PROJECT}/merge_requests/3/diffs`) {
+        // 150 files: a full first page and a partial second one
+        const page = Number(url.searchParams.get('page'));
+        const count = page === 1 ? 100 : 50;
+        return { body: Array.from({ length: count }, (_, i) => fileDiff(`src/file-${page}-${i}.ts`)) };
+      }
+      if (path === `${PROJECT}/merge_requests/2/diffs`) {
+        return { status: 500, body: { message: 'boom' } };
+      }
+      if (path === `${PROJECT}/repository/compare`) {
+        return { body: { commits: [
+          { id: 'aaa', message: "Merge branch 'feature' into 'main'\n\nMR 1\n\nSee merge request group/sub/project!1" },
+          { id: 'bbb', message: 'Squashed change' },
+          { id: 'ccc', message: 'Direct push' },
+        ] } };
+      }
+      if (path === `${PROJECT}/repository/commits/bbb/merge_requests`) {
+        return { body: [mergeRequest(3)] };
+      }
+      if (path === `${PROJECT}/repository/commits/ccc/merge_requests`) {
+        return { body: [] };
+      }
+      if (path === '/api/v4/projects/group%2Fbroken/merge_requests') {
+        return { status: 403, body: { message: '403 Forbidden' } };
+      }
+      return undefined;
+    });
+  });
+
+  after(() => server.close());
+
+  const source = () => createGitLabSource({ baseUrl: `${server.baseUrl}/`, token: 'secret' });
+
+  it('lists merged merge requests with their diffs, skipping ones whose diff fails', async () => {
+    server.requests.length = 0;
+    const { prs, hasMore } = await source().listMerged({ owner: 'group/sub', repo: 'project', page: 1, perPage: 5 });
+
+    assert.deepEqual(prs.map(pr => pr.id), ['1']);
+    assert.equal(hasMore, false);
+    assert.equal(prs[0].author, 'ann');
+    assert.equal(prs[0].baseBranch, 'main');
+    assert.equal(prs[0].diff.match(/^diff --git /gm)?.length, 150);
+
+    const list = new URL(server.requests[0].url, 'http://stub');
+    assert.equal(list.searchParams.get('state'), 'merged');
+    assert.equal(list.searchParams.get('page'), '1');
+    assert.equal(list.searchParams.get('per_page'), '100');
+
+    // Diffs are paged until a page runs short
+    const diffPages = server.requests.filter(request => request.url.includes('/merge_requests/1/diffs'));
+    assert.deepEqual(diffPages.map(request => new URL(request.url, 'http://stub').searchParams.get('page')), ['1', '2']);
+  });
+
+  it('sends the token in the PRIVATE-TOKEN header', async () => {
+    server.requests.length = 0;
+    await source().getChange('group/sub', 'project', '1');
+
+    assert.ok(server.requests.length > 0);
+    for (const request of server.requests) {
+      assert.equal(request.headers['private-token'], 'secret');
+    }
+  });
+
+  it('passes filters to the merge request list and checks them before fetching diffs', async () => {
+    server.requests.length = 0;
+    const { prs } = await source().listMerged({
+      owner: 'group/sub',
+      repo: 'project',
+      page: 1,
+      perPage: 5,
+      filters: { author: 'ann', excludeLabels: ['internal'] },
+    });
+
+    assert.deepEqual(prs.map(pr => pr.id), ['1']);
+    const list = new URL(server.requests[0].url, 'http://stub');
+    assert.equal(list.searchParams.get('author_username'), 'ann');
+    assert.equal(list.searchParams.get('not[labels]'), 'internal');
+    assert.ok(!server.requests.some(request => request.url.includes('/merge_requests/2/diffs')));
+  });
+
+  it('rejects with the status when the list request fails', async () => {
+    await assert.rejects(
+      source().listMerged({ owner: 'group', repo: 'broken', page: 1, perPage: 5 }),
+      /^Error: 403 Forbidden from \/api\/v4\/projects\/group%2Fbroken\/merge_requests$/
+    );
+  });
+
+  it('lists the merge requests in a range, newest first', async () => {
+    server.requests.length = 0;
+    const { prs, hasMore } = await source().listRange({ owner: 'group/sub', repo: 'project', base: 'v1.0.0', head: 'main', page: 1, perPage: 5 });
+
+    assert.deepEqual(prs.map(pr => pr.id), ['3', '1']);
+    assert.equal(hasMore, false);
+    const compare = new URL(server.requests[0].url, 'http://stub');
+    assert.equal(compare.searchParams.get('from'), 'v1.0.0');
+    assert.equal(compare.searchParams.get('to'), 'main');
+  });
+
+  it('pages a range by merge request', async () => {
+    const first = await source().listRange({ owner: 'group/sub', repo: 'project', base: 'v1.0.0', head: 'main', page: 1, perPage: 1 });
+    assert.deepEqual(first.prs.map(pr => pr.id), ['3']);
+    assert.equal(first.hasMore, true);
+
+    const last = await source().listRange({ owner: 'group/sub', repo: 'project', base: 'v1.0.0', head: 'main', page: 2, perPage: 1 });
+    assert.deepEqual(last.prs.map(pr => pr.id), ['1']);
+    assert.equal(last.hasMore, false);
+  });
+
+  it('filters a range by merge request details before fetching diffs', async () => {
+    server.requests.length = 0;
+    const { prs, hasMore } = await source().listRange({
+      owner: 'group/sub',
+      repo: 'project',
+      base: 'v1.0.0',
+      head: 'main',
+      page: 1,
+      perPage: 5,
+      filters: { author: 'someone-else' },
+    });
+
+    assert.deepEqual(prs, []);
+    assert.equal(hasMore, false);
+    assert.ok(!server.requests.some(request => request.url.includes('/diffs')));
+  });
+
+  it('returns null from getChange for missing merge requests and non-numeric ids', async () => {
+    assert.equal(await source().getChange('group/sub', 'project', '404'), null);
+    assert.equal(await source().getChange('group/sub', 'project', 'abc'), null);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Diff source backed by the GitLab REST API (gitlab.com or self-hosted).
+ *
+ * Merged merge requests stand in for pull requests, identified by their
+ * project-scoped `iid`. GitLab returns diffs per file without git headers, so
+ * the headers are rebuilt to give the same unified diff as the other sources.
+ */
+
+import type { PR } from '@/lib/utils';
+import type { ChangeFilters } from '@/types/change-filters';
+import { matchesChangeFilters } from './filters';
+import { requestJson, trimBaseUrl } from './http';
+import { findMatchingPage } from './paging';
+import { fetchRangePage, resolveRangeIds } from './range';
+import type { DiffSource } from './types';
+
+interface GitLabSourceOptions {
+  baseUrl: string;
+  token?: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  web_url: string;
+  labels?: string[];
+  merged_at?: string | null;
+  state?: string;
+  author?: { username: string } | null;
+  target_branch?: string;
+}
+
+interface GitLabCompare {
+  commits: { id: string; message: string }[];
+}
+
+interface GitLabFileDiff {
+  old_path: string;
+  new_path: string;
+  a_mode?: string;
+  b_mode?: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+// Merge requests per page of the list API
+const LIST_PAGE_SIZE = 100;
+
+// Files per page when fetching a merge request's diffs
+const DIFFS_PER_PAGE = 100;
+
+// Upper bound on diff pages, for merge requests touching thousands of files
+const MAX_DIFF_PAGES = 10;
+
+// "See merge request group/project!123" in GitLab merge commit messages
+const MERGE_REQUEST_REFERENCE = /^See merge request \S+!(\d+)$/m;
+
+const parseMergeRequestIid = (message: string): string | null => message.match(MERGE_REQUEST_REFERENCE)?.[1] ?? null;
+
+/**
+ * Turns filters into merge request list parameters. Merge dates can't be
+ * queried directly, but an MR merged after a date was also updated after it.
+ */
+const toSearchParams = ({ mergedAfter, labels, excludeLabels, author, baseBranch, search }: ChangeFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (mergedAfter) params.set('updated_after', mergedAfter);
+  if (labels) params.set('labels', labels.join(','));
+  if (excludeLabels) params.set('not[labels]', excludeLabels.join(','));
+  if (author) params.set('author_username', author);
+  if (baseBranch) params.set('target_branch', baseBranch);
+  if (search) {
+    params.set('search', search);
+    params.set('in', 'title');
+  }
+  return params;
+};
+
+const toPRInfo = (mr: GitLabMergeRequest): Omit<PR, 'diff'> => ({
+  id: String(mr.iid),
+  description: mr.title,
+  url: mr.web_url,
+  labels: mr.labels ?? [],
+  author: mr.author?.username,
+  baseBranch: mr.target_branch,
+  mergedAt: mr.merged_at ?? undefined,
+});
+
+/**
+ * Rebuilds the `diff --git` headers GitLab leaves out of each file's diff
+ */
+export const formatGitLabDiff = (files: GitLabFileDiff[]): string => {
+  return files.map(file => {
+    const lines = [`diff --git a/${file.old_path} b/${file.new_path}`];
+    if (file.new_file) lines.push(`new file mode ${file.b_mode ?? '100644'}`);
+    if (file.deleted_file) lines.push(`deleted file mode ${file.a_mode ?? '100644'}`);
+    if (file.renamed_file) lines.push(`rename from ${file.old_path}`, `rename to ${file.new_path}`);
+    if (file.diff) {
+      lines.push(
+        `--- ${file.new_file ? '/dev/null' : `a/${file.old_path}`}`,
+        `+++ ${file.deleted_file ? '/dev/null' : `b/${file.new_path}`}`,
+        file.diff.replace(/\n$/, '')
+      );
+    }
+    return lines.join('\n');
+  }).join('\n') + '\n';
+};
+
+export const createGitLabSource = ({ baseUrl, token }: GitLabSourceOptions): DiffSource => {
+  const api = `${trimBaseUrl(baseUrl)}/api/v4`;
+  const headers: Record<string, string> = token ? { 'PRIVATE-TOKEN': token } : {};
+
+  // Projects are addressed by their URL-encoded path, e.g. `group%2Fsubgroup%2Fproject`
+  const projectUrl = (owner: string, repo: string) => `${api}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+  /**
+   * Fetches a merge request's diff, returning null if it can't be accessed
+   */
+  const toPR = async (owner: string, repo: string, mr: GitLabMergeRequest): Promise<PR | null> => {
+    try {
+      const files: GitLabFileDiff[] = [];
+      for (let page = 1; page <= MAX_DIFF_PAGES; page++) {
+        const batch = await requestJson<GitLabFileDiff[]>(
+          `${projectUrl(owner, repo)}/merge_requests/${mr.iid}/diffs?page=${page}&per_page=${DIFFS_PER_PAGE}`,
+          headers
+        );
+        files.push(...batch);
+        if (batch.length < DIFFS_PER_PAGE) break;
+      }
+
+      return { ...toPRInfo(mr), diff: formatGitLabDiff(files) };
+    } catch (error) {
+      // Skip merge requests that can't be accessed (rate limits, permissions, etc.)
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`Skipping MR !${mr.iid}:`, error instanceof Error ? error.message : error);
+      }
+      return null;
+    }
+  };
+
+  /**
+   * Fetches a merge request without its diff, returning null if it can't be found
+   */
+  const getMergeRequest = async (owner: string, repo: string, id: string): Promise<GitLabMergeRequest | null> => {
+    if (!/^\d+$/.test(id)) return null;
+    try {
+      return await requestJson<GitLabMergeRequest>(`${projectUrl(owner, repo)}/merge_requests/${id}`, headers);
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error(`Error fetching MR !${id}:`, error);
+      }
+      return null;
+    }
+  };
+
+  const getChange = async (owner: string, repo: string, id: string): Promise<PR | null> => {
+    const mr = await getMergeRequest(owner, repo, id);
+    return mr && toPR(owner, repo, mr);
+  };
+
+  return {
+    name: 'gitlab',
+
+    listMerged: async ({ owner, repo, page, perPage, filters = {} }) => {
+      const filterParams = toSearchParams(filters).toString();
+      // The list is only narrowed approximately (see toSearchParams), so pages are read until enough match
+      const { items, hasMore } = await findMatchingPage(
+        async batch => {
+          const mergeRequests = await requestJson<GitLabMergeRequest[]>(
+            `${projectUrl(owner, repo)}/merge_requests?state=merged&order_by=updated_at&sort=desc&page=${batch}&per_page=${LIST_PAGE_SIZE}${filterParams ? `&${filterParams}` : ''}`,
+            headers
+          );
+          return { items: mergeRequests, done: mergeRequests.length < LIST_PAGE_SIZE };
+        },
+        mr => matchesChangeFilters(toPRInfo(mr), filters),
+        page,
+        perPage
+      );
+      const prs = await Promise.all(items.map(mr => toPR(owner, repo, mr)));
+      return { prs: prs.filter((pr): pr is PR => pr !== null), hasMore };
+    },
+
+    listRange: async ({ owner, repo, base, head, page, perPage, filters = {} }) => {
+      // Commits come back oldest first
+      const { commits } = await requestJson<GitLabCompare>(
+        `${projectUrl(owner, repo)}/repository/compare?from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}`,
+        headers
+      );
+
+      // Squash and fast-forward merges don't reference their merge request, so they're looked up
+      const iids = await resolveRangeIds(
+        commits.map(commit => ({ sha: commit.id, message: commit.message })),
+        parseMergeRequestIid,
+        async sha => {
+          const mergeRequests = await requestJson<GitLabMergeRequest[]>(
+            `${projectUrl(owner, repo)}/repository/commits/${sha}/merge_requests`,
+            headers
+          );
+          const merged = mergeRequests.find(mr => mr.state === 'merged');
+          return merged ? String(merged.iid) : null;
+        }
+      );
+
+      return fetchRangePage(iids, page, perPage, filters, {
+        getDetails: iid => getMergeRequest(owner, repo, iid),
+        toInfo: toPRInfo,
+        withDiff: mr => toPR(owner, repo, mr),
+      });
+    },
+
+    getChange,
+  };
+};
@@ -0,0 +1,36 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { requestJson, requestText, trimBaseUrl } from './http';
+import { startStubServer, type StubServer } from './stub-server';
+
+describe('http', () => {
+  let server: StubServer;
+
+  before(async () => {
+    server = await startStubServer(url => {
+      if (url.pathname === '/json') return { body: { ok: true } };
+      if (url.pathname === '/text') return { body: 'plain' };
+      if (url.pathname === '/error') return { status: 503, body: { message: 'down' } };
+      return undefined;
+    });
+  });
+
+  after(() => server.close());
+
+  it('parses JSON and text responses and sends the given headers', async () => {
+    server.requests.length = 0;
+    assert.deepEqual(await requestJson(`${server.baseUrl}/json`, { 'X-Token': 'abc' }), { ok: true });
+    assert.equal(await requestText(`${server.baseUrl}/text`), 'plain');
+    assert.equal(server.requests[0].headers['x-token'], 'abc');
+  });
+
+  it('throws for non-2xx responses with the status and path', async () => {
+    await assert.rejects(requestJson(`${server.baseUrl}/error?page=2`), /^Error: 503 Service Unavailable from \/error$/);
+    await assert.rejects(requestText(`${server.baseUrl}/missing`), /^Error: 404 Not Found from \/missing$/);
+  });
+
+  it('strips trailing slashes from base URLs', () => {
+    assert.equal(trimBaseUrl('https://gitlab.example.com//'), 'https://gitlab.example.com');
+    assert.equal(trimBaseUrl('https://gitlab.example.com'), 'https://gitlab.example.com');
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * HTTP helpers shared by the REST-based diff sources
+ */
+
+/**
+ * Fetches a URL and resolves with the response, throwing for non-2xx statuses
+ */
+export const request = async (url: string, headers: Record<string, string> = {}): Promise<Response> => {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} from ${new URL(url).pathname}`);
+  }
+  return response;
+};
+
+export const requestJson = async <T>(url: string, headers?: Record<string, string>): Promise<T> => {
+  return (await request(url, headers)).json() as Promise<T>;
+};
+
+export const requestText = async (url: string, headers?: Record<string, string>): Promise<string> => {
+  return (await request(url, headers)).text();
+};
+
+/**
+ * Strips trailing slashes from a configured base URL
+ */
+export const trimBaseUrl = (baseUrl: string): string => baseUrl.replace(/\/+$/, '');
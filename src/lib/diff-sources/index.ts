@@ -0,0 +1,115 @@
+/**
+ * Diff source selection driven by environment configuration
+ *
+ * - `DIFF_SOURCE`: `github` (default), `gitlab`, `gitea` or `local-git`
+ * - `GITLAB_URL`, `GITLAB_TOKEN`: GitLab server (default `https://gitlab.com`) and access token
+ * - `GITEA_URL`, `GITEA_TOKEN`: Gitea server and access token
+ * - `LOCAL_GIT_PATH`: checkout read by `local-git`
+ * - `LOCAL_GIT_RANGE`: `base..head` range read by `local-git` instead of the
+ *   merge commits on HEAD
+ *
+ * Repositories listed in `src/config/repositories.json`, keyed by `owner/repo`,
+ * use the source configured there instead, so repos on different hosts can be
+ * served side by side.
+ */
+
+import repositoriesConfig from '@/config/repositories.json';
+import { createGitHubSource } from './github';
+import { createGitLabSource } from './gitlab';
+import { createGiteaSource } from './gitea';
+import { createLocalGitSource } from './local-git';
+import type { DiffSource, DiffSourceConfig, DiffSourceName, RepositorySourceConfig } from './types';
+
+export type {
+  ChangePage,
+  DiffSource,
+  DiffSourceConfig,
+  DiffSourceName,
+  ListMergedOptions,
+  ListRangeOptions,
+  RepositorySourceConfig,
+} from './types';
+
+const SOURCE_NAMES: DiffSourceName[] = ['github', 'gitlab', 'gitea', 'local-git'];
+
+const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+// Environment variables holding each host's default server and token
+const HOST_ENV: Partial<Record<DiffSourceName, { url: string; token: string }>> = {
+  gitlab: { url: 'GITLAB_URL', token: 'GITLAB_TOKEN' },
+  gitea: { url: 'GITEA_URL', token: 'GITEA_TOKEN' },
+};
+
+const REPOSITORY_SOURCES = (repositoriesConfig as { repositories: Record<string, RepositorySourceConfig> }).repositories;
+
+// PR numbers, commit SHAs, or other provider ids; always safe as a path segment
+const CHANGE_ID = /^[\w.-]+$/;
+
+/**
+ * Checks a change id from a request before it's passed to a source
+ */
+export const isValidChangeId = (value: unknown): value is string => {
+  return typeof value === 'string' && CHANGE_ID.test(value) && value !== '.' && value !== '..';
+};
+
+/**
+ * Reads the diff source configuration for a repository: its entry in
+ * `src/config/repositories.json` if it has one, otherwise the environment
+ */
+export const getDiffSourceConfig = (
+  env: Record<string, string | undefined> = process.env,
+  repository?: { owner: string; repo: string }
+): DiffSourceConfig => {
+  const entry = repository ? REPOSITORY_SOURCES[`${repository.owner}/${repository.repo}`] : undefined;
+  const source = (entry?.source || env.DIFF_SOURCE || 'github') as DiffSourceName;
+
+  if (!SOURCE_NAMES.includes(source)) {
+    throw new Error(`Unknown DIFF_SOURCE "${source}". Expected one of: ${SOURCE_NAMES.join(', ')}`);
+  }
+
+  const hostEnv = HOST_ENV[source];
+  const tokenEnv = entry?.tokenEnv ?? hostEnv?.token;
+
+  return {
+    source,
+    baseUrl: entry?.baseUrl ?? (hostEnv ? env[hostEnv.url] : undefined) ?? (source === 'gitlab' ? DEFAULT_GITLAB_URL : undefined),
+    token: tokenEnv ? env[tokenEnv] : undefined,
+    localPath: entry?.path ?? env.LOCAL_GIT_PATH,
+    localRange: entry ? undefined : env.LOCAL_GIT_RANGE,
+    // A checkout configured for a repository keeps that repository's name
+    ...(entry && repository ? { repository } : {}),
+  };
+};
+
+/**
+ * Creates the source described by a config (defaults to the environment)
+ */
+export const getDiffSource = (config: DiffSourceConfig = getDiffSourceConfig()): DiffSource => {
+  switch (config.source) {
+    case 'local-git':
+      if (!config.localPath) {
+        throw new Error('LOCAL_GIT_PATH is required when DIFF_SOURCE is "local-git"');
+      }
+      return createLocalGitSource({ repoPath: config.localPath, range: config.localRange, repository: config.repository });
+
+    case 'gitlab':
+      return createGitLabSource({ baseUrl: config.baseUrl || DEFAULT_GITLAB_URL, token: config.token });
+
+    case 'gitea':
+      if (!config.baseUrl) {
+        throw new Error('GITEA_URL (or a baseUrl in src/config/repositories.json) is required for Gitea repositories');
+      }
+      return createGiteaSource({ baseUrl: config.baseUrl, token: config.token });
+
+    case 'github':
+    default:
+      return createGitHubSource();
+  }
+};
+
+/**
+ * Creates the source that serves a repository
+ */
+export const getRepositoryDiffSource = (owner: string, repo: string): DiffSource => {
+  return getDiffSource(getDiffSourceConfig(process.env, { owner, repo }));
+};
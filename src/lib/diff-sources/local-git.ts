@@ -0,0 +1,204 @@
+/**
+ * Diff source that reads a local git checkout, so no network access is needed.
+ *
+ * Each merge commit on the first-parent history of HEAD stands in for a merged
+ * pull request. Repositories without merge commits (squash or rebase merges)
+ * list every first-parent commit instead, as does a `base..head` range.
+ * Changes are identified by their abbreviated commit SHA.
+ *
+ * Filters are matched against the commit's author and committer date, and a
+ * base branch filter lists that branch instead of HEAD. Commits have no labels.
+ */
+
+import path from 'path';
+import { getCommitDiff, isValidRef, parseRange, runGit } from '@/lib/local-git';
+import type { PR } from '@/lib/utils';
+import type { ChangeFilters } from '@/types/change-filters';
+import { hasChangeFilters, matchesChangeFilters } from './filters';
+import { getPage } from './paging';
+import type { ChangePage, DiffSource } from './types';
+
+interface LocalGitSourceOptions {
+  repoPath: string;
+  /** `base..head` to read instead of the merge commits on HEAD */
+  range?: string;
+  /** Repository the checkout is reported as */
+  repository?: { owner: string; repo: string };
+}
+
+interface CommitInfo {
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  /** Committer date, which for a merge commit is when it was merged */
+  date: string;
+  subject: string;
+  body: string;
+}
+
+// Field and record separators for `git log --format`
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+const LOG_FORMAT = `--format=%h${FIELD}%an${FIELD}%ae${FIELD}%cI${FIELD}%s${FIELD}%b${RECORD}`;
+
+// Commits read when filtering, since every commit has to be checked before paging
+const MAX_FILTERED_COMMITS = 2000;
+
+const COMMIT_ID = /^[0-9a-f]{7,40}$/;
+
+// "Merge pull request #123 from user/branch", with the PR title on the first body line
+const GITHUB_MERGE_SUBJECT = /^Merge pull request #\d+ from /;
+
+const parseLog = (output: string): CommitInfo[] => {
+  return output
+    .split(RECORD)
+    .map(record => record.replace(/^\n/, ''))
+    .filter(Boolean)
+    .map(record => {
+      const [sha, authorName = '', authorEmail = '', date = '', subject = '', body = ''] = record.split(FIELD);
+      return { sha, authorName, authorEmail, date, subject, body: body.trim() };
+    });
+};
+
+/**
+ * Uses the pull request title for GitHub merge commits, and the subject otherwise
+ */
+const getTitle = ({ subject, body }: CommitInfo): string => {
+  const firstBodyLine = body.split('\n')[0]?.trim();
+  return GITHUB_MERGE_SUBJECT.test(subject) && firstBodyLine ? firstBodyLine : subject;
+};
+
+/**
+ * Turns a remote URL (`git@host:owner/repo.git` or `https://host/owner/repo.git`) into its web address
+ */
+const toWebUrl = (remote: string): string | null => {
+  const ssh = remote.match(/^(?:ssh:\/\/)?git@([^:/]+)[:/](.+?)(?:\.git)?\/?$/);
+  if (ssh) return `https://${ssh[1]}/${ssh[2]}`;
+
+  const https = remote.match(/^https?:\/\/(?:[^@/]+@)?(.+?)(?:\.git)?\/?$/);
+  return https ? `https://${https[1]}` : null;
+};
+
+export const createLocalGitSource = ({ repoPath, range, repository }: LocalGitSourceOptions): DiffSource => {
+  const root = path.resolve(process.cwd(), repoPath);
+  const parsedRange = range ? parseRange(range) : null;
+
+  if (range && !parsedRange) {
+    throw new Error(`Invalid LOCAL_GIT_RANGE "${range}". Expected <base>..<head>`);
+  }
+
+  // Looked up once per source
+  let webUrl: Promise<string | null> | undefined;
+  const hasMerges = new Map<string, Promise<boolean>>();
+
+  const getWebUrl = () => webUrl ??= runGit(root, ['config', '--get', 'remote.origin.url'])
+    .then(remote => toWebUrl(remote.trim()), () => null);
+
+  const getHasMerges = (revision: string) => {
+    if (!hasMerges.has(revision)) {
+      hasMerges.set(revision, runGit(root, ['rev-list', '--first-parent', '--merges', '-n', '1', revision, '--'])
+        .then(output => output.trim().length > 0));
+    }
+    return hasMerges.get(revision)!;
+  };
+
+  const toPR = async (commit: CommitInfo): Promise<PR> => {
+    const [diff, web] = await Promise.all([getCommitDiff(root, commit.sha), getWebUrl()]);
+    return {
+      id: commit.sha,
+      description: getTitle(commit),
+      diff,
+      url: web ? `${web}/commit/${commit.sha}` : '',
+      author: commit.authorName,
+      mergedAt: commit.date,
+    };
+  };
+
+  /**
+   * Checks a commit against the filters; the author can be given as name or email
+   */
+  const matchesCommit = (commit: CommitInfo, { author, baseBranch, ...filters }: ChangeFilters, branch?: string): boolean => {
+    if (author && ![commit.authorName, commit.authorEmail].some(value => value.toLowerCase() === author.toLowerCase())) {
+      return false;
+    }
+    if (baseBranch && baseBranch !== branch) return false;
+    return matchesChangeFilters({ id: commit.sha, description: getTitle(commit), url: '', mergedAt: commit.date }, filters);
+  };
+
+  /**
+   * Lists one page of the first-parent commits of a revision range, newest first.
+   * One commit past the page is read to tell whether there are more.
+   */
+  const listCommits = async (
+    revision: string,
+    mergesOnly: boolean,
+    page: number,
+    perPage: number,
+    filters: ChangeFilters = {},
+    branch?: string
+  ): Promise<ChangePage> => {
+    const filtered = hasChangeFilters(filters);
+    const output = await runGit(root, [
+      'log',
+      '--first-parent',
+      ...(mergesOnly ? ['--merges'] : []),
+      '--abbrev=12',
+      LOG_FORMAT,
+      // Filtered lists are paged after filtering
+      ...(filtered
+        ? [`--max-count=${MAX_FILTERED_COMMITS}`]
+        : [`--skip=${(page - 1) * perPage}`, `--max-count=${perPage + 1}`]),
+      revision,
+      '--',
+    ]);
+
+    const commits = parseLog(output);
+    if (!filtered) {
+      return { prs: await Promise.all(commits.slice(0, perPage).map(toPR)), hasMore: commits.length > perPage };
+    }
+
+    const matching = commits.filter(commit => matchesCommit(commit, filters, branch));
+    return {
+      prs: await Promise.all(getPage(matching, page, perPage).map(toPR)),
+      hasMore: matching.length > page * perPage,
+    };
+  };
+
+  return {
+    name: 'local-git',
+
+    // Stored notes are keyed by the checkout's directory name unless the repository is named
+    repository: repository ?? { owner: 'local', repo: path.basename(root).replace(/[^\w.-]/g, '-') || 'repo' },
+
+    listMerged: async ({ page, perPage, filters }) => {
+      if (parsedRange) {
+        return listCommits(`${parsedRange.base}..${parsedRange.head}`, false, page, perPage, filters);
+      }
+      // A base branch filter reads that branch's history
+      const branch = filters?.baseBranch;
+      const revision = branch ?? 'HEAD';
+      return listCommits(revision, await getHasMerges(revision), page, perPage, filters, branch);
+    },
+
+    listRange: async ({ base, head, page, perPage, filters }) => {
+      if (!isValidRef(base) || !isValidRef(head)) {
+        throw new Error(`Invalid range "${base}..${head}"`);
+      }
+      return listCommits(`${base}..${head}`, false, page, perPage, filters);
+    },
+
+    getChange: async (_owner, _repo, id) => {
+      if (!COMMIT_ID.test(id)) return null;
+      try {
+        const output = await runGit(root, ['log', '-1', '--abbrev=12', LOG_FORMAT, `${id}^{commit}`, '--']);
+        const [commit] = parseLog(output);
+        return commit ? toPR(commit) : null;
+      } catch (error) {
+        if (process.env.NODE_ENV === 'development') {
+          console.error(`Error reading commit ${id}:`, error);
+        }
+        return null;
+      }
+    },
+  };
+};
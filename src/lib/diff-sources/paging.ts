@@ -0,0 +1,43 @@
+/**
+ * Helpers for paging through a source's changes when only some of them match
+ */
+
+// Batches read at most while looking for one page, so a filter that matches
+// almost nothing doesn't walk a repository's whole history
+const MAX_SCANNED_BATCHES = 10;
+
+export interface Batch<T> {
+  items: T[];
+  /** Whether the source has nothing after this batch */
+  done: boolean;
+}
+
+/**
+ * Returns one page of a list
+ */
+export const getPage = <T>(items: T[], page: number, perPage: number): T[] => {
+  return items.slice((page - 1) * perPage, page * perPage);
+};
+
+/**
+ * Finds one page of the items that pass `matches`, reading batches (numbered
+ * from 1) until an item past the page turns up or the source runs out. Every
+ * page is counted from the first batch, so pages stay stable however sparse
+ * the matches are.
+ */
+export const findMatchingPage = async <T>(
+  readBatch: (batch: number) => Promise<Batch<T>>,
+  matches: (item: T) => boolean,
+  page: number,
+  perPage: number
+): Promise<{ items: T[]; hasMore: boolean }> => {
+  const matching: T[] = [];
+
+  for (let batch = 1; batch <= MAX_SCANNED_BATCHES && matching.length <= page * perPage; batch++) {
+    const { items, done } = await readBatch(batch);
+    matching.push(...items.filter(matches));
+    if (done) break;
+  }
+
+  return { items: getPage(matching, page, perPage), hasMore: matching.length > page * perPage };
+};
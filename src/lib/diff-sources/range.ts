@@ -0,0 +1,109 @@
+/**
+ * Helpers for turning the commits between two refs into the merged changes they belong to
+ */
+
+import { mapWithConcurrency } from '@/lib/concurrency';
+import type { PR } from '@/lib/utils';
+import type { ChangeFilters } from '@/types/change-filters';
+import { hasChangeFilters, matchesChangeFilters } from './filters';
+import { findMatchingPage, getPage } from './paging';
+import type { ChangePage } from './types';
+
+export interface RangeCommit {
+  sha: string;
+  message: string;
+}
+
+// Commits looked up through the API when their message doesn't name a change,
+// so a range full of branch commits doesn't cost one request per commit
+const MAX_COMMIT_LOOKUPS = 50;
+
+// Changes whose details are fetched at a time when filtering a range
+const FILTER_BATCH_SIZE = 25;
+
+/**
+ * How a source fetches a change in a range: its details first, so filters can
+ * be checked, then its diff
+ */
+export interface RangeChangeFetcher<T> {
+  /** Fetches a change's details by id, or null if it can't be found */
+  getDetails: (id: string) => Promise<T | null>;
+  toInfo: (change: T) => Omit<PR, 'diff'>;
+  /** Fetches the change's diff, or null if it can't be accessed */
+  withDiff: (change: T) => Promise<PR | null>;
+}
+
+/**
+ * Resolves the ids of the changes that landed in a range, newest first and
+ * without duplicates. Ids are read from commit messages where possible, and
+ * looked up for the remaining commits; commits that belong to no change are dropped.
+ */
+export const resolveRangeIds = async (
+  commits: RangeCommit[],
+  parseId: (message: string) => string | null,
+  lookupId: (sha: string) => Promise<string | null>
+): Promise<string[]> => {
+  const newestFirst = [...commits].reverse();
+  const parsed = newestFirst.map(commit => parseId(commit.message));
+
+  const unresolved = newestFirst.filter((_, index) => parsed[index] === null).slice(0, MAX_COMMIT_LOOKUPS);
+  const lookedUp = new Map<string, string | null>();
+  await mapWithConcurrency(unresolved, 5, async commit => {
+    lookedUp.set(commit.sha, await lookupId(commit.sha).catch(() => null));
+  });
+
+  const ids = newestFirst.map((commit, index) => parsed[index] ?? lookedUp.get(commit.sha) ?? null);
+  return Array.from(new Set(ids.filter((id): id is string => id !== null)));
+};
+
+/**
+ * Fetches one page of a range's changes. Without filters, whether there are
+ * more is decided by the resolved ids, so a failed fetch doesn't end the range
+ * early. With filters, details are fetched in batches and checked before any
+ * diff is fetched, and pages count only the matching changes.
+ */
+export const fetchRangePage = async <T>(
+  ids: string[],
+  page: number,
+  perPage: number,
+  filters: ChangeFilters,
+  { getDetails, toInfo, withDiff }: RangeChangeFetcher<T>
+): Promise<ChangePage> => {
+  const toPR = async (change: T | null) => (change ? withDiff(change) : null);
+
+  if (!hasChangeFilters(filters)) {
+    const prs = await Promise.all(getPage(ids, page, perPage).map(async id => toPR(await getDetails(id))));
+    return {
+      prs: prs.filter((pr): pr is PR => pr !== null),
+      hasMore: page * perPage < ids.length,
+    };
+  }
+
+  const { items, hasMore } = await findMatchingPage(
+    async batch => {
+      const batchIds = getPage(ids, batch, FILTER_BATCH_SIZE);
+      const changes = await mapWithConcurrency(batchIds, 5, getDetails);
+      return {
+        items: changes.filter((change): change is T => change !== null),
+        done: batch * FILTER_BATCH_SIZE >= ids.length,
+      };
+    },
+    change => matchesChangeFilters(toInfo(change), filters),
+    page,
+    perPage
+  );
+  const prs = await Promise.all(items.map(toPR));
+  return { prs: prs.filter((pr): pr is PR => pr !== null), hasMore };
+};
+
+// "Merge pull request #123 from …" (GitHub), "Merge pull request 'Title' (#123) from …"
+// (Gitea) and squash merges titled "Title (#123)"
+const PULL_REQUEST_SUBJECT = /^Merge pull request #(\d+) from |\(#(\d+)\)(?: from .*)?$/;
+
+/**
+ * Reads the pull request number from a GitHub or Gitea merge or squash commit message
+ */
+export const parsePullRequestNumber = (message: string): string | null => {
+  const match = message.split('\n')[0].trim().match(PULL_REQUEST_SUBJECT);
+  return match ? match[1] ?? match[2] : null;
+};
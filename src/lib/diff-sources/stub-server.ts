@@ -0,0 +1,53 @@
+/**
+ * Local HTTP server standing in for a Git host's REST API in the diff source tests
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StubRequest {
+  /** Path and query, decoded */
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+export interface StubResponse {
+  status?: number;
+  /** Sent as JSON unless it's a string */
+  body?: unknown;
+}
+
+export interface StubServer {
+  baseUrl: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a server that answers each request with `handle`'s response, or a
+ * 404 when it returns undefined, and records the requests it receives
+ */
+export const startStubServer = async (
+  handle: (url: URL) => StubResponse | undefined
+): Promise<StubServer> => {
+  const requests: StubRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://stub');
+    requests.push({ url: decodeURIComponent(req.url ?? ''), headers: req.headers });
+
+    const { status = 200, body = '' } = handle(url) ?? { status: 404, body: { message: 'Not Found' } };
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' });
+    res.end(text);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+};
@@ -0,0 +1,73 @@
+/**
+ * Shared interface implemented by every source of merged changes and their diffs
+ */
+
+import type { PR } from '@/lib/utils';
+import type { ChangeFilters } from '@/types/change-filters';
+
+export interface ListMergedOptions {
+  owner: string;
+  repo: string;
+  page: number;
+  perPage: number;
+  /** Narrows the list before diffs are fetched */
+  filters?: ChangeFilters;
+}
+
+export interface ListRangeOptions extends ListMergedOptions {
+  /** Ref the range starts after: a tag, branch or SHA */
+  base: string;
+  /** Ref the range ends at */
+  head: string;
+}
+
+export interface ChangePage {
+  /** The page's changes with their diffs; changes whose diff can't be fetched are left out */
+  prs: PR[];
+  /** Whether the source has changes after this page */
+  hasMore: boolean;
+}
+
+export interface DiffSource {
+  /** Identifier used in config and logs, e.g. `github` */
+  name: DiffSourceName;
+  /**
+   * Repository the source always reads, for sources that ignore the requested
+   * owner and repo. Reported to the page and used to key stored notes.
+   */
+  repository?: { owner: string; repo: string };
+  /** Lists one page of the recently merged changes that match the filters, with their diffs, newest first */
+  listMerged(options: ListMergedOptions): Promise<ChangePage>;
+  /** Lists one page of the changes that landed between two refs and match the filters, with their diffs, newest first */
+  listRange(options: ListRangeOptions): Promise<ChangePage>;
+  /** Fetches one change and its diff by id, or null if it can't be found */
+  getChange(owner: string, repo: string, id: string): Promise<PR | null>;
+}
+
+export type DiffSourceName = 'github' | 'gitlab' | 'gitea' | 'local-git';
+
+export interface DiffSourceConfig {
+  source: DiffSourceName;
+  /** Server of a `gitlab` or `gitea` source */
+  baseUrl?: string;
+  /** Access token for a `gitlab` or `gitea` source */
+  token?: string;
+  /** Path of the local checkout read by `local-git` */
+  localPath?: string;
+  /** `base..head` range read by `local-git` instead of the merge commits on HEAD */
+  localRange?: string;
+  /** Repository a `local-git` checkout is reported as (default `local/<directory name>`) */
+  repository?: { owner: string; repo: string };
+}
+
+/**
+ * A repository's entry in `src/config/repositories.json`
+ */
+export interface RepositorySourceConfig {
+  source: DiffSourceName;
+  baseUrl?: string;
+  /** Environment variable holding the access token (default `GITLAB_TOKEN` or `GITEA_TOKEN`) */
+  tokenEnv?: string;
+  /** Checkout path, for `local-git` */
+  path?: string;
+}
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDiff } from './diff-parser';
+import { formatOmissionSummary, truncateDiff } from './diff-truncation';
+
+// One hunk replacing `lines` lines
+const fileWithOneHunk = (path: string, lines: number) => [
+  `diff --git a/${path} b/${path}`,
+  `--- a/${path}`,
+  `+++ b/${path}`,
+  `@@ -1,${lines} +1,${lines} @@ export const table`,
+  ...Array.from({ length: lines }, (_, i) => `-  old entry ${i}\n+  new entry ${i}`),
+].join('\n');
+
+describe('truncateDiff', () => {
+  it('keeps the start of a hunk that alone is over the budget', () => {
+    const raw = fileWithOneHunk('src/generated-table.ts', 400);
+    const { diff, summary } = truncateDiff(raw, 300);
+
+    const [file] = parseDiff(diff);
+    assert.equal(file.path, 'src/generated-table.ts');
+    assert.equal(file.hunks.length, 1);
+    const [hunk] = file.hunks;
+    assert.ok(hunk.lines.length > 0 && hunk.lines.length < 800);
+    assert.equal(hunk.oldLines, hunk.lines.filter(line => line.type !== 'add').length);
+    assert.equal(hunk.newLines, hunk.lines.filter(line => line.type !== 'del').length);
+    assert.match(hunk.header, / @@ export const table$/);
+    assert.match(diff, /\n\.\.\. \d+ more line\(s\) of this hunk were cut to fit the model$/);
+
+    assert.deepEqual(summary.omittedFiles, []);
+    assert.deepEqual(summary.partialFiles, [{
+      path: 'src/generated-table.ts',
+      keptHunks: 1,
+      totalHunks: 1,
+      cutLines: 800 - hunk.lines.length,
+    }]);
+    assert.ok(summary.keptTokens <= 300);
+    assert.match(formatOmissionSummary(summary), /\(1 of 1 hunks, the last cut short by \d+ lines\)/);
+  });
+
+  it('leaves the next file intact after a cut hunk', () => {
+    const raw = `${fileWithOneHunk('src/big.ts', 400)}\n${fileWithOneHunk('src/small.ts', 2)}`;
+    const { diff } = truncateDiff(raw, 400);
+
+    const files = parseDiff(diff);
+    assert.deepEqual(files.map(file => file.path), ['src/big.ts', 'src/small.ts']);
+    assert.equal(files[1].hunks[0].lines.length, 4);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Hunk-aware, token-budgeted truncation of parsed diffs.
+ *
+ * Files and hunks are kept or dropped whole. Low-signal files (lockfiles,
+ * snapshots, generated output) are dropped first, then the remaining budget
+ * is shared fairly between the files that are left. A file whose first hunk
+ * alone is over its share keeps the start of that hunk, marked as cut.
+ */
+
+import { parseDiff, formatDiffFile, formatDiffHunk, type DiffFile, type DiffHunk, type DiffLine } from '@/lib/diff-parser';
+import { estimateTokens } from '@/lib/models';
+import type { OmittedFile, PartialFile, TruncationSummary } from '@/types/diff-analyzer';
+
+export interface TruncatedDiff {
+  diff: string;
+  summary: TruncationSummary;
+}
+
+const LOW_SIGNAL_PATTERNS = [
+  // Lockfiles
+  /(^|\/)package-lock\.json$/,
+  /(^|\/)npm-shrinkwrap\.json$/,
+  /(^|\/)yarn\.lock$/,
+  /(^|\/)pnpm-lock\.yaml$/,
+  /(^|\/)bun\.lockb?$/,
+  /(^|\/)Cargo\.lock$/,
+  /(^|\/)Gemfile\.lock$/,
+  /(^|\/)poetry\.lock$/,
+  /(^|\/)composer\.lock$/,
+  /(^|\/)go\.sum$/,
+
+  // Snapshots
+  /(^|\/)__snapshots__\//,
+  /\.snap$/,
+
+  // Generated output
+  /(^|\/)dist\//,
+  /(^|\/)build\//,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /\.generated\./,
+];
+
+/**
+ * Checks whether a file is unlikely to matter for release notes
+ */
+export const isLowSignalFile = (file: DiffFile): boolean => {
+  return LOW_SIGNAL_PATTERNS.some(pattern => pattern.test(file.path));
+};
+
+interface FileCost {
+  file: DiffFile;
+  headerTokens: number;
+  hunkTokens: number[];
+  total: number;
+}
+
+const measureFile = (file: DiffFile): FileCost => {
+  const headerTokens = estimateTokens(formatDiffFile(file, []));
+  const hunkTokens = file.hunks.map(hunk => estimateTokens(formatDiffHunk(hunk)));
+  return {
+    file,
+    headerTokens,
+    hunkTokens,
+    total: headerTokens + hunkTokens.reduce((sum, tokens) => sum + tokens, 0),
+  };
+};
+
+/**
+ * Splits a budget between files so small files are kept whole and the
+ * leftover is shared equally between the larger ones
+ */
+const allocateFairShares = (costs: FileCost[], budget: number): Map<FileCost, number> => {
+  const allocation = new Map<FileCost, number>();
+  const pending = [...costs].sort((a, b) => a.total - b.total);
+  let remaining = budget;
+
+  while (pending.length > 0) {
+    const share = Math.floor(remaining / pending.length);
+    const cost = pending[0];
+
+    if (cost.total <= share) {
+      allocation.set(cost, cost.total);
+      remaining -= cost.total;
+      pending.shift();
+      continue;
+    }
+
+    // Everything left is larger than an equal share
+    for (const rest of pending) {
+      allocation.set(rest, share);
+    }
+    break;
+  }
+
+  return allocation;
+};
+
+// Follows a cut hunk in the diff; the parser ignores it, like any text after a complete hunk
+const formatCutMarker = (cutLines: number) => `... ${cutLines} more line(s) of this hunk were cut to fit the model`;
+
+/**
+ * Cuts a hunk down to its leading lines that fit in a token budget, with the
+ * header's line counts updated so the diff still parses. Returns null if no line fits.
+ */
+const cutHunk = (hunk: DiffHunk, budgetTokens: number): { hunk: DiffHunk; cutLines: number } | null => {
+  const lines: DiffLine[] = [];
+  let used = estimateTokens(`${hunk.header}
+${formatCutMarker(hunk.lines.length)}`);
+
+  for (const line of hunk.lines) {
+    used += estimateTokens(` ${line.content}
+`);
+    if (used > budgetTokens) break;
+    lines.push(line);
+  }
+
+  if (lines.length === 0) return null;
+
+  const oldLines = lines.filter(line => line.type !== 'add').length;
+  const newLines = lines.filter(line => line.type !== 'del').length;
+  const section = hunk.section ? ` ${hunk.section}` : '';
+  return {
+    hunk: {
+      ...hunk,
+      header: `@@ -${hunk.oldStart},${oldLines} +${hunk.newStart},${newLines} @@${section}`,
+      oldLines,
+      newLines,
+      lines,
+    },
+    cutLines: hunk.lines.length - lines.length,
+  };
+};
+
+/**
+ * Picks whole hunks, in order, that fit within a file's allocation. If none
+ * does, keeps the start of the first hunk instead.
+ */
+const selectHunks = (cost: FileCost, allocation: number): { hunks: DiffHunk[]; cutLines: number } => {
+  const selected: DiffHunk[] = [];
+  let used = cost.headerTokens;
+
+  cost.file.hunks.forEach((hunk, index) => {
+    if (used + cost.hunkTokens[index] <= allocation) {
+      selected.push(hunk);
+      used += cost.hunkTokens[index];
+    }
+  });
+
+  const cut = selected.length === 0 && cost.file.hunks.length > 0
+    ? cutHunk(cost.file.hunks[0], allocation - cost.headerTokens)
+    : null;
+  return cut ? { hunks: [cut.hunk], cutLines: cut.cutLines } : { hunks: selected, cutLines: 0 };
+};
+
+/**
+ * Truncates a raw diff to fit a token budget, respecting file and hunk boundaries
+ */
+export const truncateDiff = (raw: string, budgetTokens: number): TruncatedDiff => {
+  const originalTokens = estimateTokens(raw);
+  const summary: TruncationSummary = {
+    truncated: false,
+    originalTokens,
+    keptTokens: originalTokens,
+    budgetTokens,
+    omittedFiles: [],
+    partialFiles: [],
+  };
+
+  if (originalTokens <= budgetTokens) {
+    return { diff: raw, summary };
+  }
+
+  summary.truncated = true;
+  const files = parseDiff(raw);
+
+  // Not a diff we can parse: fall back to a plain prefix
+  if (files.length === 0) {
+    const diff = raw.substring(0, Math.floor(budgetTokens * 3.5));
+    return { diff, summary: { ...summary, keptTokens: estimateTokens(diff) } };
+  }
+
+  let costs = files.map(measureFile);
+  const omitted: OmittedFile[] = [];
+  const totalOf = (list: FileCost[]) => list.reduce((sum, cost) => sum + cost.total, 0);
+
+  // 1. Drop low-signal files, largest first, until the rest fits
+  const lowSignal = costs
+    .filter(cost => isLowSignalFile(cost.file))
+    .sort((a, b) => b.total - a.total);
+  for (const cost of lowSignal) {
+    if (totalOf(costs) <= budgetTokens) break;
+    costs = costs.filter(c => c !== cost);
+    omitted.push({ path: cost.file.path, reason: 'low-signal', tokens: cost.total });
+  }
+
+  // 2. If even the file headers don't fit, drop the largest files outright
+  const headersOf = (list: FileCost[]) => list.reduce((sum, cost) => sum + cost.headerTokens, 0);
+  while (costs.length > 1 && headersOf(costs) > budgetTokens) {
+    const largest = costs.reduce((max, cost) => (cost.total > max.total ? cost : max));
+    costs = costs.filter(c => c !== largest);
+    omitted.push({ path: largest.file.path, reason: 'budget', tokens: largest.total });
+  }
+
+  // 3. Give each remaining file a fair share and keep whole hunks within it
+  const allocation = allocateFairShares(costs, budgetTokens);
+  const partial: PartialFile[] = [];
+  const kept = new Map<DiffFile, { hunks: DiffHunk[]; cutLines: number }>();
+
+  for (const cost of costs) {
+    const selection = selectHunks(cost, allocation.get(cost) ?? 0);
+    const { hunks, cutLines } = selection;
+
+    if (hunks.length === 0 && cost.file.hunks.length > 0) {
+      omitted.push({ path: cost.file.path, reason: 'budget', tokens: cost.total });
+      continue;
+    }
+    if (hunks.length < cost.file.hunks.length || cutLines > 0) {
+      partial.push({
+        path: cost.file.path,
+        keptHunks: hunks.length,
+        totalHunks: cost.file.hunks.length,
+        ...(cutLines > 0 ? { cutLines } : {}),
+      });
+    }
+    kept.set(cost.file, selection);
+  }
+
+  // Preserve the original file order in the output
+  const diff = files
+    .flatMap(file => {
+      const selection = kept.get(file);
+      if (!selection) return [];
+      const text = formatDiffFile(file, selection.hunks);
+      return [selection.cutLines > 0 ? `${text}\n${formatCutMarker(selection.cutLines)}` : text];
+    })
+    .join('\n');
+
+  return {
+    diff,
+    summary: {
+      ...summary,
+      keptTokens: estimateTokens(diff),
+      omittedFiles: omitted,
+      partialFiles: partial,
+    },
+  };
+};
+
+/**
+ * Describes what truncation left out, for inclusion in the LLM prompt
+ */
+export const formatOmissionSummary = (summary: TruncationSummary): string => {
+  if (!summary.truncated) {
+    return '';
+  }
+
+  const lines: string[] = [
+    `The diff was truncated from ~${summary.originalTokens} to ~${summary.keptTokens} tokens.`,
+  ];
+
+  const lowSignal = summary.omittedFiles.filter(file => file.reason === 'low-signal');
+  const overBudget = summary.omittedFiles.filter(file => file.reason === 'budget');
+
+  if (lowSignal.length > 0) {
+    lines.push(`Omitted low-signal files (lockfiles, snapshots, generated output): ${lowSignal.map(f => f.path).join(', ')}`);
+  }
+  if (overBudget.length > 0) {
+    lines.push(`Omitted files that did not fit: ${overBudget.map(f => f.path).join(', ')}`);
+  }
+  for (const file of summary.partialFiles) {
+    const cut = file.cutLines ? `, the last cut short by ${file.cutLines} lines` : '';
+    lines.push(`Partially included: ${file.path} (${file.keptHunks} of ${file.totalHunks} hunks${cut})`);
+  }
+
+  return lines.join('\n');
+};
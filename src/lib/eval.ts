@@ -0,0 +1,337 @@
+/**
+ * Offline evaluation of release-note quality.
+ *
+ * Runs every case of a dataset (`fixtures/eval/<name>.json`) through the
+ * analysis pipeline and scores the notes against the audience config and the
+ * case's expectations. Two runs, e.g. with different prompt templates or
+ * models, are compared check by check so a change can be judged before it ships.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { runAnalysis } from '@/lib/analysis';
+import { parseDiff } from '@/lib/diff-parser';
+import { checkGrounding } from '@/lib/grounding';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { AUDIENCES, getNote } from '@/lib/audiences';
+import { formatPromptRef } from '@/lib/prompt-registry';
+import { resolveHashedPrompt } from '@/lib/prompts';
+import type { LLMProvider } from '@/lib/llm';
+import type { ChangeCategory, PromptRef, ReleaseNotes, RetryInfo } from '@/types/diff-analyzer';
+
+export interface EvalCase {
+  id: string;
+  /** PR title passed to the pipeline */
+  title: string;
+  diff: string;
+  labels?: string[];
+  expect?: {
+    category?: ChangeCategory;
+    /** Strings that must appear in at least one note */
+    mentions?: string[];
+    /** The relevance filter should skip this PR */
+    skipped?: boolean;
+  };
+}
+
+export interface EvalDataset {
+  description?: string;
+  cases: EvalCase[];
+}
+
+export type EvalCheck = 'json' | 'length' | 'verb' | 'bold' | 'backticks' | 'grounding' | 'expected';
+
+export interface EvalCheckResult {
+  check: EvalCheck;
+  passed: boolean;
+  /** Why the check failed */
+  detail?: string;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  status: 'completed' | 'skipped' | 'failed';
+  notes?: ReleaseNotes;
+  checks: EvalCheckResult[];
+  /** Repair attempts after output failed validation */
+  repairs: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface EvalRun {
+  label: string;
+  model: string;
+  prompt: PromptRef;
+  cases: EvalCaseResult[];
+  totals: Partial<Record<EvalCheck, { passed: number; total: number }>>;
+  /** Share of all checks that passed, from 0 to 1 */
+  score: number;
+}
+
+export interface EvalComparison {
+  baseline: EvalRun;
+  candidate: EvalRun;
+  checks: { check: EvalCheck; baseline: number; candidate: number; delta: number }[];
+  /** Checks whose result differs between the runs, per case */
+  changes: { caseId: string; check: EvalCheck; baseline: boolean; candidate: boolean }[];
+}
+
+export const DEFAULT_EVAL_DIR = 'fixtures/eval';
+
+export const DEFAULT_EVAL_DATASET = 'release-notes';
+
+export const EVAL_CHECKS: EvalCheck[] = ['json', 'length', 'verb', 'bold', 'backticks', 'grounding', 'expected'];
+
+const DEFAULT_CONCURRENCY = 3;
+
+// First words accepted as verbs besides past tenses ending in "ed"
+const LEADING_VERBS = new Set([
+  'add', 'adds', 'allow', 'allows', 'build', 'builds', 'built', 'bump', 'bumps', 'cache', 'caches', 'cut', 'cuts',
+  'drop', 'drops', 'enable', 'enables', 'fix', 'fixes', 'handle', 'handles', 'improve', 'improves', 'introduce',
+  'introduces', 'make', 'makes', 'made', 'move', 'moves', 'optimize', 'optimizes', 'prevent', 'prevents', 'refactor',
+  'refactors', 'remove', 'removes', 'rename', 'renames', 'replace', 'replaces', 'retry', 'retries', 'show', 'shows',
+  'split', 'splits', 'stop', 'stops', 'support', 'supports', 'update', 'updates', 'use', 'uses',
+]);
+
+const BOLD = /\*\*[^*]+\*\*/;
+
+/**
+ * Reads a dataset by name from `dir` (default `fixtures/eval`)
+ */
+export const loadEvalDataset = async (name: string = DEFAULT_EVAL_DATASET, dir: string = DEFAULT_EVAL_DIR): Promise<EvalDataset> => {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid eval dataset name "${name}"`);
+  }
+
+  const file = path.join(path.resolve(process.cwd(), dir), `${name}.json`);
+  const dataset = JSON.parse(await fs.readFile(file, 'utf8')) as EvalDataset;
+
+  if (!Array.isArray(dataset.cases) || dataset.cases.some(item => !item.id || !item.title || typeof item.diff !== 'string')) {
+    throw new Error(`Eval dataset ${file} must have a "cases" array of { id, title, diff }`);
+  }
+  return dataset;
+};
+
+const startsWithVerb = (note: string): boolean => {
+  const word = note.replace(/^[^A-Za-z]+/, '').split(/\s/)[0]?.toLowerCase() ?? '';
+  return word.endsWith('ed') || LEADING_VERBS.has(word);
+};
+
+/**
+ * Collects the audiences that fail a rule, as a check result
+ */
+const checkAudiences = (check: EvalCheck, failures: string[]): EvalCheckResult => ({
+  check,
+  passed: failures.length === 0,
+  ...(failures.length > 0 ? { detail: failures.join('; ') } : {}),
+});
+
+/**
+ * Scores completed notes against the audience rules, the diff and the case's expectations
+ */
+export const scoreNotes = (notes: ReleaseNotes, testCase: EvalCase, repairs: number): EvalCheckResult[] => {
+  const files = parseDiff(testCase.diff);
+  const unsupported = checkGrounding(notes, files, testCase.title);
+  const texts = AUDIENCES.map(audience => ({ audience, note: getNote(notes, audience.id) }));
+  const allText = texts.map(({ note }) => note).join('\n');
+  const { category, mentions = [], skipped } = testCase.expect ?? {};
+
+  const expectedFailures = [
+    ...(skipped ? ['expected the PR to be skipped'] : []),
+    ...(category && notes.category !== category ? [`category ${notes.category ?? 'none'}, expected ${category}`] : []),
+    ...mentions.filter(mention => !allText.includes(mention)).map(mention => `no mention of "${mention}"`),
+  ];
+
+  return [
+    checkAudiences('json', repairs > 0 ? [`valid only after ${repairs} repair(s)`] : []),
+    checkAudiences('length', texts
+      .filter(({ audience, note }) => note.length > audience.maxLength)
+      .map(({ audience, note }) => `${audience.id} is ${note.length}/${audience.maxLength} chars`)),
+    checkAudiences('verb', texts
+      .filter(({ audience }) => audience.instructions.some(instruction => /start with a verb/i.test(instruction)))
+      .filter(({ note }) => !startsWithVerb(note))
+      .map(({ audience }) => `${audience.id} doesn't start with a verb`)),
+    checkAudiences('bold', texts
+      .filter(({ audience, note }) => audience.format.boldBenefit && !BOLD.test(note))
+      .map(({ audience }) => `${audience.id} has no bold benefit`)),
+    checkAudiences('backticks', texts
+      .filter(({ audience, note }) => !audience.format.codeSpans && note.includes('`'))
+      .map(({ audience }) => `${audience.id} uses code spans`)),
+    checkAudiences('grounding', unsupported.map(issue => `"${issue.claim}" not in the diff`)),
+    checkAudiences('expected', expectedFailures),
+  ];
+};
+
+/**
+ * Runs one case through the analysis pipeline and scores the result
+ */
+const runCase = async (
+  testCase: EvalCase,
+  { provider, promptId, signal }: { provider: LLMProvider; promptId?: string; signal: AbortSignal }
+): Promise<EvalCaseResult> => {
+  const started = Date.now();
+  let repairs = 0;
+
+  try {
+    const outcome = await runAnalysis(
+      { diffContent: testCase.diff, diffId: testCase.id, description: testCase.title, labels: testCase.labels, promptId },
+      {
+        provider,
+        signal,
+        emit: event => {
+          // Grounding retries are scored by the grounding check instead
+          if (event.type === 'retry' && (event.data as RetryInfo).reason !== 'grounding') {
+            repairs++;
+          }
+        },
+      }
+    );
+    const durationMs = Date.now() - started;
+
+    if (outcome.status === 'completed') {
+      return {
+        id: testCase.id,
+        status: 'completed',
+        notes: outcome.notes,
+        checks: scoreNotes(outcome.notes, testCase, repairs),
+        repairs,
+        durationMs,
+      };
+    }
+
+    const message = outcome.status === 'skipped' ? outcome.message : 'Analysis was aborted';
+    return {
+      id: testCase.id,
+      status: outcome.status === 'skipped' ? 'skipped' : 'failed',
+      checks: [checkAudiences('expected', testCase.expect?.skipped && outcome.status === 'skipped' ? [] : [message])],
+      repairs,
+      ...(outcome.status === 'skipped' ? {} : { error: message }),
+      durationMs,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // Nothing usable came back, so every check fails
+    return {
+      id: testCase.id,
+      status: 'failed',
+      checks: EVAL_CHECKS.map(check => ({ check, passed: false, detail: message })),
+      repairs,
+      error: message,
+      durationMs: Date.now() - started,
+    };
+  }
+};
+
+/**
+ * Runs every case of a dataset with one provider and prompt template
+ */
+export const runEvaluation = async (
+  dataset: EvalDataset,
+  {
+    provider,
+    promptId,
+    label = promptId ?? provider.defaultModel,
+    signal = new AbortController().signal,
+    concurrency = DEFAULT_CONCURRENCY,
+  }: { provider: LLMProvider; promptId?: string; label?: string; signal?: AbortSignal; concurrency?: number }
+): Promise<EvalRun> => {
+  // Resolving first also rejects an unknown template before any case runs
+  const prompt = resolveHashedPrompt({ promptId }).ref;
+  const results = await mapWithConcurrency(dataset.cases, concurrency, testCase => runCase(testCase, { provider, promptId, signal }));
+
+  const totals: EvalRun['totals'] = {};
+  for (const { check, passed } of results.flatMap(result => result.checks)) {
+    const total = totals[check] ??= { passed: 0, total: 0 };
+    total.total++;
+    if (passed) total.passed++;
+  }
+
+  const all = Object.values(totals);
+  const passed = all.reduce((sum, total) => sum + total.passed, 0);
+  const count = all.reduce((sum, total) => sum + total.total, 0);
+
+  return {
+    label,
+    model: provider.defaultModel,
+    prompt,
+    cases: results,
+    totals,
+    score: count > 0 ? passed / count : 0,
+  };
+};
+
+const passRate = (run: EvalRun, check: EvalCheck): number => {
+  const total = run.totals[check];
+  return total && total.total > 0 ? total.passed / total.total : 0;
+};
+
+/**
+ * Compares two runs of the same dataset, check by check and case by case
+ */
+export const compareEvaluations = (baseline: EvalRun, candidate: EvalRun): EvalComparison => {
+  const checks = EVAL_CHECKS
+    .filter(check => baseline.totals[check] || candidate.totals[check])
+    .map(check => {
+      const before = passRate(baseline, check);
+      const after = passRate(candidate, check);
+      return { check, baseline: before, candidate: after, delta: after - before };
+    });
+
+  const changes: EvalComparison['changes'] = [];
+  for (const before of baseline.cases) {
+    const after = candidate.cases.find(result => result.id === before.id);
+    if (!after) continue;
+    for (const check of EVAL_CHECKS) {
+      const was = before.checks.find(result => result.check === check);
+      const now = after.checks.find(result => result.check === check);
+      if (was && now && was.passed !== now.passed) {
+        changes.push({ caseId: before.id, check, baseline: was.passed, candidate: now.passed });
+      }
+    }
+  }
+
+  return { baseline, candidate, checks, changes };
+};
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const signedPercent = (value: number): string => `${value > 0 ? '+' : ''}${Math.round(value * 100)}%`;
+
+/**
+ * Renders a comparison as a Markdown report
+ */
+export const formatComparison = ({ baseline, candidate, checks, changes }: EvalComparison): string => {
+  const describe = (run: EvalRun) =>
+    `${run.label} (model \`${run.model}\`, prompt \`${formatPromptRef(run.prompt)}\`)`;
+
+  const lines = [
+    '# Release-note evaluation',
+    '',
+    `- **Baseline:** ${describe(baseline)}`,
+    `- **Candidate:** ${describe(candidate)}`,
+    '',
+    `Overall: ${percent(baseline.score)} → ${percent(candidate.score)} (${signedPercent(candidate.score - baseline.score)})`,
+    '',
+    '| Check | Baseline | Candidate | Change |',
+    '| --- | --- | --- | --- |',
+    ...checks.map(row => `| ${row.check} | ${percent(row.baseline)} | ${percent(row.candidate)} | ${signedPercent(row.delta)} |`),
+  ];
+
+  if (changes.length > 0) {
+    const detailFor = (run: EvalRun, caseId: string, check: EvalCheck) =>
+      run.cases.find(result => result.id === caseId)?.checks.find(result => result.check === check)?.detail;
+
+    lines.push('', '## Changed results', '');
+    for (const change of changes) {
+      const verdict = change.candidate ? 'now passes' : 'now fails';
+      const detail = detailFor(change.candidate ? baseline : candidate, change.caseId, change.check);
+      lines.push(`- \`${change.caseId}\` ${change.check} ${verdict}${detail ? `: ${detail}` : ''}`);
+    }
+  } else {
+    lines.push('', 'No case changed result.');
+  }
+
+  return lines.join('\n') + '\n';
+};
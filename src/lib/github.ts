@@ -0,0 +1,100 @@
+/**
+ * GitHub access shared by the API routes: fetching pull requests and their diffs
+ */
+
+import { Octokit } from '@octokit/rest';
+import type { PR } from '@/lib/utils';
+
+// Initialize the GitHub API client with more explicit token handling
+const githubToken = process.env.GITHUB_TOKEN;
+if (process.env.NODE_ENV === 'development') {
+  console.log('GitHub Token available:', !!githubToken); // Log if token exists (without exposing it)
+}
+
+export const octokit = new Octokit({
+  auth: githubToken,
+});
+
+export const DEFAULT_OWNER = process.env.GITHUB_OWNER || 'openai';
+export const DEFAULT_REPO = process.env.GITHUB_REPO || 'openai-node';
+
+export interface PullRequestSummary {
+  url: string;
+  number: number;
+  title: string;
+  html_url: string;
+  labels?: { name?: string }[];
+  user?: { login: string } | null;
+  base?: { ref: string };
+  merged_at?: string | null;
+}
+
+/**
+ * Maps a pull request to everything but its diff
+ */
+export const toPRInfo = ({ number, title, html_url, labels = [], user, base, merged_at }: PullRequestSummary): Omit<PR, 'diff'> => ({
+  id: number.toString(),
+  description: title,
+  url: html_url,
+  labels: labels.map(label => label.name).filter((name): name is string => !!name),
+  author: user?.login,
+  baseBranch: base?.ref,
+  mergedAt: merged_at ?? undefined,
+});
+
+/**
+ * Fetches the raw diff for a pull request, returning null if it can't be accessed
+ */
+export const fetchPullRequestDiff = async (pr: PullRequestSummary): Promise<PR | null> => {
+  try {
+    const { url, number } = pr;
+    
+    // Fetch the raw diff
+    const diffResponse = await fetch(`${url}`, {
+      headers: {
+        Accept: 'application/vnd.github.v3.diff',
+        ...(githubToken ? { Authorization: `token ${githubToken}` } : {}),
+      },
+    });
+    
+    if (!diffResponse.ok) {
+      // Skip PRs that can't be accessed (rate limits, permissions, etc.)
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`Skipping PR #${number}: ${diffResponse.status} ${diffResponse.statusText}`);
+      }
+      return null;
+    }
+    
+    const diff = await diffResponse.text();
+    
+    return { ...toPRInfo(pr), diff };
+  } catch (diffError) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error(`Error fetching diff for PR:`, diffError);
+    }
+    return null; // Return null for failed diffs
+  }
+};
+
+/**
+ * Fetches a single pull request by number without its diff, returning null if it can't be found
+ */
+export const getPullRequestSummary = async (owner: string, repo: string, number: number): Promise<PullRequestSummary | null> => {
+  try {
+    const { data } = await octokit.pulls.get({ owner, repo, pull_number: number });
+    return data;
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error(`Error fetching PR #${number}:`, error);
+    }
+    return null;
+  }
+};
+
+/**
+ * Fetches a single pull request and its diff by number
+ */
+export const getPullRequest = async (owner: string, repo: string, number: number): Promise<PR | null> => {
+  const pr = await getPullRequestSummary(owner, repo, number);
+  return pr && fetchPullRequestDiff(pr);
+};
@@ -0,0 +1,105 @@
+/**
+ * Grounding checks for generated notes.
+ *
+ * Pulls code spans and numeric claims out of the notes and looks for them in
+ * the parsed diff and PR title, flagging anything the change doesn't support.
+ */
+
+import type { DiffFile } from '@/lib/diff-parser';
+import { AUDIENCE_IDS, getNote } from '@/lib/audiences';
+import type { GroundingIssue, ReleaseNotes } from '@/types/diff-analyzer';
+
+const CODE_SPAN = /`([^`\n]+)`/g;
+const NUMERIC_CLAIM = /\b(\d+(?:\.\d+)?)\s*(%|x\b|×|times\b|ms\b|seconds?\b|MB\b|KB\b|GB\b)/gi;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/g;
+
+/**
+ * Extracts the contents of inline code spans
+ */
+export const extractCodeSpans = (text: string): string[] => {
+  return Array.from(text.matchAll(CODE_SPAN), match => match[1].trim()).filter(Boolean);
+};
+
+/**
+ * Extracts quantitative claims such as "40%", "2x" or "300ms"
+ */
+export const extractNumericClaims = (text: string): { claim: string; value: string }[] => {
+  return Array.from(text.matchAll(NUMERIC_CLAIM), match => ({ claim: match[0].trim(), value: match[1] }));
+};
+
+/**
+ * Builds the text that notes are checked against: every diff line, file path and the title
+ */
+const buildCorpus = (files: DiffFile[], title: string): string => {
+  const parts = [title];
+  for (const file of files) {
+    parts.push(file.path);
+    if (file.oldPath) parts.push(file.oldPath);
+    for (const hunk of file.hunks) {
+      parts.push(hunk.section);
+      for (const line of hunk.lines) {
+        parts.push(line.content);
+      }
+    }
+  }
+  return parts.join('\n');
+};
+
+/**
+ * Checks whether a code span is backed by the diff. Call syntax and generics are
+ * ignored, and a span like `client.retry()` passes if each identifier in it appears.
+ */
+const isSpanSupported = (span: string, corpus: string): boolean => {
+  const normalized = span.replace(/\(.*\)$/, '').replace(/<.*>$/, '').trim();
+  if (!normalized || corpus.includes(normalized)) {
+    return true;
+  }
+
+  const identifiers = normalized.match(IDENTIFIER) || [];
+  return identifiers.length > 0 && identifiers.every(identifier => corpus.includes(identifier));
+};
+
+const isNumberSupported = (value: string, corpus: string): boolean => {
+  return new RegExp(`(^|[^\\d.])${value.replace('.', '\\.')}(?![\\d])`).test(corpus);
+};
+
+/**
+ * Returns the claims in the notes that the diff and title don't support
+ */
+export const checkGrounding = (notes: ReleaseNotes, files: DiffFile[], title: string): GroundingIssue[] => {
+  const corpus = buildCorpus(files, title);
+  const issues: GroundingIssue[] = [];
+
+  for (const field of AUDIENCE_IDS) {
+    const text = getNote(notes, field);
+
+    for (const span of extractCodeSpans(text)) {
+      if (!isSpanSupported(span, corpus)) {
+        issues.push({ field, claim: span, kind: 'identifier' });
+      }
+    }
+
+    for (const { claim, value } of extractNumericClaims(text)) {
+      if (!isNumberSupported(value, corpus)) {
+        issues.push({ field, claim, kind: 'number' });
+      }
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Extra instructions for regenerating notes that contained unsupported claims
+ */
+export const createGroundingPrompt = (issues: GroundingIssue[]): string => {
+  return `
+# GROUNDING RULES (STRICT):
+A previous attempt made claims that do not appear in the diff:
+${issues.map(issue => `- ${issue.kind === 'identifier' ? `\`${issue.claim}\`` : `"${issue.claim}"`} in the ${issue.field} note`).join('\n')}
+
+- Only put identifiers in backticks if they appear literally in the diff or PR title
+- Do not state numbers, percentages or speedups unless they appear in the diff or PR title
+- If unsure, describe the change in general terms instead
+`;
+};
@@ -0,0 +1,78 @@
+/**
+ * Recorded completion streams used by the mock and record providers.
+ *
+ * A fixture is a JSON file holding the text deltas of one completion, plus
+ * optional timing and failure settings so edge cases can be replayed offline.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface LLMFixture {
+  /** What the fixture exercises, for humans reading the file */
+  description?: string;
+  /** Text deltas in the order the model produced them */
+  chunks: string[];
+  /** Delay before each chunk, in milliseconds */
+  delayMs?: number;
+  /** Per-chunk delays captured by the recorder; takes precedence over `delayMs` */
+  delays?: number[];
+  /** Throw after this many chunks have been emitted */
+  failAfter?: number;
+  /** Message of the error thrown at `failAfter` */
+  failWith?: string;
+  /** Responses to successive repair requests, replayed after the first attempt */
+  repairs?: LLMFixture[];
+  /** Model and prompt hash of a recorded session */
+  model?: string;
+  promptHash?: string;
+  recordedAt?: string;
+}
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/llm';
+
+/**
+ * Resolves the fixtures directory relative to the working directory
+ */
+export const resolveFixturesDir = (dir: string = DEFAULT_FIXTURES_DIR): string => {
+  return path.resolve(process.cwd(), dir);
+};
+
+/**
+ * Reads and validates a fixture by name (without the `.json` extension)
+ */
+export const loadFixture = async (dir: string, name: string): Promise<LLMFixture> => {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid fixture name "${name}"`);
+  }
+
+  const file = path.join(resolveFixturesDir(dir), `${name}.json`);
+  let fixture: LLMFixture;
+  try {
+    fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to load LLM fixture "${name}" from ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const isValid = (entry: LLMFixture) =>
+    Array.isArray(entry.chunks) && entry.chunks.every(chunk => typeof chunk === 'string');
+
+  if (!isValid(fixture) || (fixture.repairs && !fixture.repairs.every(isValid))) {
+    throw new Error(`LLM fixture "${name}" must have a "chunks" array of strings`);
+  }
+
+  return fixture;
+};
+
+/**
+ * Writes a fixture, returning the path it was saved to
+ */
+export const saveFixture = async (dir: string, name: string, fixture: LLMFixture): Promise<string> => {
+  const resolved = resolveFixturesDir(dir);
+  await fs.mkdir(resolved, { recursive: true });
+
+  const file = path.join(resolved, `${name}.json`);
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+
+  return file;
+};
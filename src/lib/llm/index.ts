@@ -0,0 +1,117 @@
+/**
+ * LLM provider selection driven by environment configuration
+ *
+ * - `LLM_PROVIDER`: `openai` (default), `openai-compatible` or `mock`
+ * - `LLM_MODEL`: model name (falls back to `OPENAI_MODEL`)
+ * - `LLM_BASE_URL`: base URL of an OpenAI-compatible server
+ * - `LLM_API_KEY`: API key for that server, if it needs one
+ * - `LLM_CONTEXT_WINDOW`: context window of a self-hosted model, in tokens
+ * - `LLM_FIXTURES_DIR`: fixtures directory for the mock and recorder (default `fixtures/llm`)
+ * - `LLM_MOCK_FIXTURE`: fixture the mock provider always replays
+ * - `LLM_RECORD`: set to `true` to record every completion as a fixture
+ * - `LLM_STRUCTURED_OUTPUT`: `json_schema`, `json_object` or `none`, for models
+ *   without full structured output support
+ */
+
+import { DEFAULT_MODEL } from '@/lib/models';
+import { createOpenAIProvider, createOpenAICompatibleProvider } from './openai';
+import { createMockProvider } from './mock';
+import { createRecordingProvider } from './record';
+import type { LLMConfig, LLMProvider, LLMProviderName, StructuredOutputMode } from './types';
+
+export type {
+  ChatMessage,
+  CompletionRequest,
+  LLMConfig,
+  LLMProvider,
+  LLMProviderName,
+  ResponseFormat,
+  StructuredOutputMode,
+} from './types';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'openai-compatible', 'mock'];
+const STRUCTURED_OUTPUT_MODES: StructuredOutputMode[] = ['json_schema', 'json_object', 'none'];
+
+/**
+ * Reads the provider configuration from environment variables
+ */
+export const getLLMConfig = (env: Record<string, string | undefined> = process.env): LLMConfig => {
+  const provider = (env.LLM_PROVIDER || 'openai') as LLMProviderName;
+
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const contextWindow = parseInt(env.LLM_CONTEXT_WINDOW || '', 10);
+  const structuredOutput = env.LLM_STRUCTURED_OUTPUT as StructuredOutputMode | undefined;
+
+  if (structuredOutput && !STRUCTURED_OUTPUT_MODES.includes(structuredOutput)) {
+    throw new Error(`Unknown LLM_STRUCTURED_OUTPUT "${structuredOutput}". Expected one of: ${STRUCTURED_OUTPUT_MODES.join(', ')}`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || env.OPENAI_MODEL,
+    apiKey: env.LLM_API_KEY,
+    baseURL: env.LLM_BASE_URL,
+    contextWindow: Number.isNaN(contextWindow) ? undefined : contextWindow,
+    fixturesDir: env.LLM_FIXTURES_DIR,
+    mockFixture: env.LLM_MOCK_FIXTURE,
+    record: env.LLM_RECORD === 'true' || env.LLM_RECORD === '1',
+    structuredOutput,
+  };
+};
+
+/**
+ * Creates the backend named by a config, without recording
+ */
+const createProvider = (config: LLMConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider({
+        fixturesDir: config.fixturesDir,
+        fixture: config.mockFixture,
+        defaultModel: config.model,
+        contextWindow: config.contextWindow,
+      });
+
+    case 'openai-compatible':
+      if (!config.baseURL) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER is "openai-compatible"');
+      }
+      if (!config.model) {
+        throw new Error('LLM_MODEL is required when LLM_PROVIDER is "openai-compatible"');
+      }
+      return createOpenAICompatibleProvider({
+        baseURL: config.baseURL,
+        apiKey: config.apiKey,
+        defaultModel: config.model,
+        contextWindow: config.contextWindow,
+        structuredOutput: config.structuredOutput,
+      });
+
+    case 'openai':
+    default:
+      return createOpenAIProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        defaultModel: config.model || DEFAULT_MODEL,
+        contextWindow: config.contextWindow,
+        structuredOutput: config.structuredOutput,
+      });
+  }
+};
+
+/**
+ * Creates the provider described by a config (defaults to the environment)
+ */
+export const getLLMProvider = (config: LLMConfig = getLLMConfig()): LLMProvider => {
+  const provider = createProvider(config);
+
+  // Recording a replay would only duplicate existing fixtures
+  if (config.record && config.provider !== 'mock') {
+    return createRecordingProvider(provider, config.fixturesDir);
+  }
+
+  return provider;
+};
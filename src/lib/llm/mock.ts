@@ -0,0 +1,112 @@
+/**
+ * Deterministic provider that replays recorded completion streams from fixtures.
+ *
+ * The fixture is chosen by, in order: the `fixture` option (`LLM_MOCK_FIXTURE`),
+ * a `[mock:<name>]` tag anywhere in the prompt (e.g. in the PR title), or `default`.
+ * Repair requests (those carrying earlier assistant turns) replay the fixture's
+ * `repairs` entries in order, so recovery paths can be exercised deterministically.
+ */
+
+import { loadFixture, DEFAULT_FIXTURES_DIR, type LLMFixture } from './fixtures';
+import type { CompletionRequest, LLMProvider } from './types';
+
+interface MockProviderOptions {
+  fixturesDir?: string;
+  fixture?: string;
+  defaultModel?: string;
+  contextWindow?: number;
+}
+
+const FIXTURE_TAG = /\[mock:([\w.-]+)\]/;
+
+const createAbortError = (): Error => {
+  const error = new Error('Request was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Replays a fixture's chunks with its delays, failing where the fixture says to
+ */
+export async function* replayFixture(fixture: LLMFixture, signal?: AbortSignal): AsyncGenerator<string> {
+  for (let index = 0; index < fixture.chunks.length; index++) {
+    if (fixture.failAfter !== undefined && index >= fixture.failAfter) {
+      throw new Error(fixture.failWith || 'Mock stream failed');
+    }
+
+    const delay = fixture.delays?.[index] ?? fixture.delayMs ?? 0;
+    if (delay > 0) {
+      await sleep(delay, signal);
+    } else if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    yield fixture.chunks[index];
+  }
+
+  if (fixture.failAfter !== undefined && fixture.failAfter >= fixture.chunks.length) {
+    throw new Error(fixture.failWith || 'Mock stream failed');
+  }
+}
+
+export const createMockProvider = ({
+  fixturesDir = DEFAULT_FIXTURES_DIR,
+  fixture,
+  defaultModel = 'mock',
+  contextWindow,
+}: MockProviderOptions = {}): LLMProvider => {
+  const selectFixture = (request: CompletionRequest): Promise<LLMFixture> => {
+    if (fixture) {
+      return loadFixture(fixturesDir, fixture);
+    }
+    const prompt = request.messages.map(message => message.content).join('\n');
+    const tagged = prompt.match(FIXTURE_TAG);
+    return loadFixture(fixturesDir, tagged ? tagged[1] : 'default');
+  };
+
+  const selectAttempt = async (request: CompletionRequest): Promise<LLMFixture> => {
+    const selected = await selectFixture(request);
+    const repairRound = request.messages.filter(message => message.role === 'assistant').length;
+    if (repairRound === 0 || !selected.repairs?.length) {
+      return selected;
+    }
+    return selected.repairs[Math.min(repairRound, selected.repairs.length) - 1];
+  };
+
+  return {
+    name: 'mock',
+    defaultModel,
+    contextWindow,
+    structuredOutput: 'none',
+
+    async *streamCompletion(request: CompletionRequest) {
+      yield* replayFixture(await selectAttempt(request), request.signal);
+    },
+
+    async complete(request: CompletionRequest) {
+      let text = '';
+      for await (const chunk of replayFixture(await selectAttempt(request), request.signal)) {
+        text += chunk;
+      }
+      return text;
+    },
+  };
+};
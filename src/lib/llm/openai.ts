@@ -0,0 +1,110 @@
+/**
+ * OpenAI chat completions backend, also used for OpenAI-compatible servers
+ * (llama.cpp, Ollama, vLLM) that expose the same API under a different base URL
+ */
+
+import { OpenAI } from 'openai';
+import { DEFAULT_MODEL } from '@/lib/models';
+import type { CompletionRequest, LLMProvider, ResponseFormat, StructuredOutputMode } from './types';
+
+interface OpenAIProviderOptions {
+  name?: string;
+  apiKey?: string;
+  baseURL?: string;
+  defaultModel?: string;
+  contextWindow?: number;
+  structuredOutput?: StructuredOutputMode;
+}
+
+/**
+ * Maps a response format to the `response_format` parameter for the given mode
+ */
+const toResponseFormat = (format: ResponseFormat | undefined, mode: StructuredOutputMode) => {
+  if (!format || mode === 'none') {
+    return undefined;
+  }
+  if (mode === 'json_object') {
+    return { type: 'json_object' as const };
+  }
+  return {
+    type: 'json_schema' as const,
+    json_schema: { name: format.name, schema: format.schema, strict: true },
+  };
+};
+
+export const createOpenAIProvider = ({
+  name = 'openai',
+  apiKey,
+  baseURL,
+  defaultModel = DEFAULT_MODEL,
+  contextWindow,
+  structuredOutput = 'json_schema',
+}: OpenAIProviderOptions = {}): LLMProvider => {
+  // The SDK falls back to OPENAI_API_KEY / OPENAI_BASE_URL when these are undefined
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name,
+    defaultModel,
+    contextWindow,
+    structuredOutput,
+
+    async *streamCompletion({ model, messages, temperature, signal, responseFormat }: CompletionRequest) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        stream: true,
+        response_format: toResponseFormat(responseFormat, structuredOutput),
+      }, {
+        signal
+      });
+
+      for await (const chunk of completion) {
+        // Refusals arrive in their own field under structured output; surface them as text
+        // so they fail validation like any other unusable response
+        const content = chunk.choices[0]?.delta?.content || chunk.choices[0]?.delta?.refusal;
+        if (content) {
+          yield content;
+        }
+      }
+    },
+
+    async complete({ model, messages, temperature, signal, responseFormat }: CompletionRequest) {
+      const response = await client.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        response_format: toResponseFormat(responseFormat, structuredOutput),
+      }, {
+        signal
+      });
+
+      const message = response.choices[0]?.message;
+      return message?.content || message?.refusal || '';
+    },
+  };
+};
+
+/**
+ * Backend for self-hosted servers speaking the OpenAI API, e.g.
+ * `http://localhost:11434/v1` (Ollama) or `http://localhost:8080/v1` (llama.cpp)
+ */
+export const createOpenAICompatibleProvider = ({
+  baseURL,
+  apiKey,
+  defaultModel,
+  contextWindow,
+  // Plain JSON mode is the most widely supported option on local servers
+  structuredOutput = 'json_object',
+}: Required<Pick<OpenAIProviderOptions, 'baseURL' | 'defaultModel'>> & OpenAIProviderOptions): LLMProvider => {
+  return createOpenAIProvider({
+    name: 'openai-compatible',
+    baseURL,
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: apiKey || 'not-needed',
+    defaultModel,
+    contextWindow,
+    structuredOutput,
+  });
+};
@@ -0,0 +1,80 @@
+/**
+ * Provider wrapper that records every streamed completion to a fixture file,
+ * so real sessions can later be replayed by the mock provider
+ */
+
+import { createHash } from 'crypto';
+import { saveFixture, DEFAULT_FIXTURES_DIR } from './fixtures';
+import type { CompletionRequest, LLMProvider } from './types';
+
+const hashPrompt = (request: CompletionRequest): string => {
+  return createHash('sha256')
+    .update(JSON.stringify(request.messages))
+    .digest('hex')
+    .slice(0, 12);
+};
+
+export const createRecordingProvider = (
+  inner: LLMProvider,
+  fixturesDir: string = DEFAULT_FIXTURES_DIR
+): LLMProvider => {
+  const record = async (request: CompletionRequest, chunks: string[], delays: number[], error?: unknown) => {
+    const promptHash = hashPrompt(request);
+    const failed = error instanceof Error && error.name !== 'AbortError';
+
+    try {
+      const file = await saveFixture(fixturesDir, `recorded-${promptHash}-${Date.now()}`, {
+        description: `Recorded from ${inner.name}`,
+        chunks,
+        delays,
+        ...(failed ? { failAfter: chunks.length, failWith: (error as Error).message } : {}),
+        model: request.model,
+        promptHash,
+        recordedAt: new Date().toISOString(),
+      });
+      if (process.env.NODE_ENV === 'development') {
+        console.log('Recorded LLM fixture:', file);
+      }
+    } catch (saveError) {
+      // Recording must never break the analysis itself
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to record LLM fixture:', saveError);
+      }
+    }
+  };
+
+  return {
+    ...inner,
+    name: `${inner.name}+record`,
+
+    async *streamCompletion(request: CompletionRequest) {
+      const chunks: string[] = [];
+      const delays: number[] = [];
+      let last = Date.now();
+      let failure: unknown;
+
+      try {
+        for await (const chunk of inner.streamCompletion(request)) {
+          const now = Date.now();
+          chunks.push(chunk);
+          delays.push(now - last);
+          last = now;
+          yield chunk;
+        }
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        // Also runs when the consumer stops iterating early
+        await record(request, chunks, delays, failure);
+      }
+    },
+
+    async complete(request: CompletionRequest) {
+      const started = Date.now();
+      const text = await inner.complete(request);
+      await record(request, [text], [Date.now() - started]);
+      return text;
+    },
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * Shared interface implemented by every LLM backend
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * How a backend enforces JSON output: a full JSON schema, plain JSON mode, or not at all
+ */
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'none';
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  signal?: AbortSignal;
+  /** Requests schema-constrained output where the backend supports it */
+  responseFormat?: ResponseFormat;
+}
+
+export interface LLMProvider {
+  /** Identifier used in config and logs, e.g. `openai` */
+  name: string;
+  /** Model used when the request doesn't name one */
+  defaultModel: string;
+  /** Overrides the built-in context window table, for self-hosted models */
+  contextWindow?: number;
+  /** How `responseFormat` is passed to the backend */
+  structuredOutput: StructuredOutputMode;
+  /** Streams the completion as text deltas */
+  streamCompletion(request: CompletionRequest): AsyncIterable<string>;
+  /** Resolves with the full completion text */
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  baseURL?: string;
+  contextWindow?: number;
+  /** Directory holding mock/recorded fixtures */
+  fixturesDir?: string;
+  /** Fixture the mock provider always replays */
+  mockFixture?: string;
+  /** Record every completion to the fixtures directory */
+  record?: boolean;
+  /** Overrides the provider's default structured output mode */
+  structuredOutput?: StructuredOutputMode;
+}
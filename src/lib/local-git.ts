@@ -0,0 +1,64 @@
+/**
+ * Helpers for reading diffs and commits from a local git checkout
+ */
+
+import { execFile } from 'child_process';
+
+// Diffs of large ranges can run to tens of megabytes
+const MAX_GIT_OUTPUT = 64 * 1024 * 1024;
+
+// Tags, branches, SHAs and revision suffixes such as `HEAD~3` or `v1.0^{}`
+const REF = /^[\w./@^~{}-]+$/;
+
+/**
+ * Runs a git command in `repoPath` and resolves with its stdout
+ */
+export const runGit = (repoPath: string, args: string[]): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    execFile('git', ['-C', repoPath, ...args], { maxBuffer: MAX_GIT_OUTPUT }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+};
+
+/**
+ * Checks a ref is safe to pass to git: no options, spaces or range syntax
+ */
+export const isValidRef = (ref: string): boolean => {
+  return REF.test(ref) && !ref.startsWith('-') && !ref.includes('..');
+};
+
+/**
+ * Splits `base..head` into its refs, or returns null if it isn't a valid range
+ */
+export const parseRange = (range: string): { base: string; head: string } | null => {
+  const match = range.match(/^(.+?)\.\.(.+)$/);
+  if (!match || !isValidRef(match[1]) || !isValidRef(match[2])) return null;
+  return { base: match[1], head: match[2] };
+};
+
+/**
+ * Returns the diff between two refs
+ */
+export const getRangeDiff = (repoPath: string, base: string, head: string): Promise<string> => {
+  return runGit(repoPath, ['diff', '--no-color', '--no-ext-diff', `${base}..${head}`, '--']);
+};
+
+/**
+ * Lists the subjects of the commits reachable from `head` but not `base`, oldest first
+ */
+export const getRangeSubjects = async (repoPath: string, base: string, head: string): Promise<string[]> => {
+  const output = await runGit(repoPath, ['log', '--reverse', '--format=%s', `${base}..${head}`, '--']);
+  return output.split('\n').filter(Boolean);
+};
+
+/**
+ * Returns the changes a commit made; merge commits are diffed against their first parent
+ */
+export const getCommitDiff = (repoPath: string, sha: string): Promise<string> => {
+  return runGit(repoPath, ['show', '--format=', '--no-color', '--no-ext-diff', '--diff-merges=first-parent', sha, '--']);
+};
@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { groupFilesForSummary } from './map-reduce';
+
+// One hunk replacing `lines` lines
+const fileWithOneHunk = (path: string, lines: number) => [
+  `diff --git a/${path} b/${path}`,
+  `--- a/${path}`,
+  `+++ b/${path}`,
+  `@@ -1,${lines} +1,${lines} @@`,
+  ...Array.from({ length: lines }, (_, i) => `-  old entry ${i}\n+  new entry ${i}`),
+].join('\n');
+
+describe('groupFilesForSummary', () => {
+  it('summarizes the start of a file whose only hunk is over the budget', () => {
+    const groups = groupFilesForSummary(fileWithOneHunk('src/big.ts', 400), 300);
+
+    assert.equal(groups.length, 1);
+    assert.deepEqual(groups[0].files, ['src/big.ts']);
+    assert.match(groups[0].diff, /^\+  new entry 0$/m);
+  });
+
+  it('leaves out a file when nothing of it fits, rather than an empty group', () => {
+    const raw = `${fileWithOneHunk('src/big.ts', 400)}\n${fileWithOneHunk('src/small.ts', 1)}`;
+    const groups = groupFilesForSummary(raw, 45);
+
+    assert.deepEqual(groups.map(group => group.files), [['src/small.ts']]);
+    assert.deepEqual(groups.map(group => group.index), [0]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Multi-pass summarization for pull requests too large for a single prompt.
+ *
+ * The map step summarizes each group of files on its own; the reduce step
+ * then writes the release notes from those summaries instead of the raw diff.
+ */
+
+import { parseDiff, formatDiffFile, type DiffFile } from '@/lib/diff-parser';
+import { truncateDiff, isLowSignalFile } from '@/lib/diff-truncation';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { estimateTokens } from '@/lib/models';
+import type { MapReduceProgress } from '@/types/diff-analyzer';
+
+export interface FileGroup {
+  index: number;
+  files: string[];
+  diff: string;
+}
+
+export interface FileGroupSummary {
+  group: FileGroup;
+  summary: string | null;
+  error?: string;
+}
+
+// Keeps large PRs from fanning out into dozens of LLM calls
+const DEFAULT_MAX_GROUPS = 12;
+
+// Number of file-group summaries requested at once
+const DEFAULT_MAP_CONCURRENCY = 3;
+
+/**
+ * Packs files into groups whose diffs each fit in one summarization call.
+ * Low-signal files are skipped and files larger than the budget are truncated on their own,
+ * or skipped if nothing of them fits.
+ */
+export const groupFilesForSummary = (raw: string, budgetTokens: number): FileGroup[] => {
+  const files = parseDiff(raw).filter(file => !isLowSignalFile(file));
+  const groups: FileGroup[] = [];
+  let current: { files: DiffFile[]; tokens: number } = { files: [], tokens: 0 };
+
+  const flush = () => {
+    if (current.files.length === 0) return;
+    groups.push({
+      index: groups.length,
+      files: current.files.map(file => file.path),
+      diff: current.files.map(file => formatDiffFile(file)).join('\n'),
+    });
+    current = { files: [], tokens: 0 };
+  };
+
+  for (const file of files) {
+    const text = formatDiffFile(file);
+    const tokens = estimateTokens(text);
+
+    if (tokens > budgetTokens) {
+      flush();
+      // Keeps the start of an oversized hunk; a file that can't fit even that is
+      // left out rather than summarized from an empty diff and shown as covered
+      const { diff } = truncateDiff(text, budgetTokens);
+      if (diff.trim()) {
+        groups.push({ index: groups.length, files: [file.path], diff });
+      }
+      continue;
+    }
+
+    if (current.tokens + tokens > budgetTokens) {
+      flush();
+    }
+    current.files.push(file);
+    current.tokens += tokens;
+  }
+  flush();
+
+  return groups;
+};
+
+/**
+ * Creates the map-step prompt that summarizes one group of files
+ */
+export const createFileSummaryPrompt = (group: FileGroup, description: string): string => {
+  return `
+You are summarizing part of a large Pull Request so release notes can be written later.
+
+# PR TITLE:
+${description}
+
+# FILES IN THIS PART:
+${group.files.join('\n')}
+
+# DIFF CONTENT:
+\`\`\`
+${group.diff}
+\`\`\`
+
+# YOUR TASK:
+Summarize what changed in these files in at most 3 short bullet points (max 60 words total).
+- Name the concrete functions, types, or options that changed, in backticks
+- Mention user-visible behavior changes and breaking changes explicitly
+- Do not speculate about files that are not shown
+Respond with the bullet points only.
+`;
+};
+
+/**
+ * Formats map-step results as the source material for the reduce prompt
+ */
+export const formatGroupSummaries = (results: FileGroupSummary[]): string => {
+  return results
+    .map(({ group, summary, error }) => {
+      const heading = `## ${group.files.join(', ')}`;
+      return summary ? `${heading}\n${summary.trim()}` : `${heading}\n(summary unavailable: ${error || 'unknown error'})`;
+    })
+    .join('\n\n');
+};
+
+interface SummarizeOptions {
+  description: string;
+  summarize: (prompt: string) => Promise<string>;
+  onProgress?: (progress: MapReduceProgress) => void;
+  concurrency?: number;
+  maxGroups?: number;
+}
+
+/**
+ * Runs the map step over file groups, reporting progress as each group finishes
+ */
+export const summarizeFileGroups = async (
+  groups: FileGroup[],
+  { description, summarize, onProgress, concurrency, maxGroups }: SummarizeOptions
+): Promise<FileGroupSummary[]> => {
+  const selected = groups.slice(0, maxGroups ?? DEFAULT_MAX_GROUPS);
+  const total = selected.length;
+  let completed = 0;
+
+  return mapWithConcurrency(selected, concurrency ?? DEFAULT_MAP_CONCURRENCY, async group => {
+    onProgress?.({
+      stage: 'map',
+      completed,
+      total,
+      group: { index: group.index, files: group.files, status: 'running' },
+    });
+
+    try {
+      const summary = await summarize(createFileSummaryPrompt(group, description));
+      completed++;
+      onProgress?.({
+        stage: 'map',
+        completed,
+        total,
+        group: { index: group.index, files: group.files, status: 'done' },
+      });
+      return { group, summary };
+    } catch (error) {
+      // Let aborts propagate so the whole analysis stops
+      if (error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'))) {
+        throw error;
+      }
+      completed++;
+      onProgress?.({
+        stage: 'map',
+        completed,
+        total,
+        group: { index: group.index, files: group.files, status: 'failed' },
+      });
+      return { group, summary: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+};
@@ -0,0 +1,74 @@
+/**
+ * Migration guide generation for breaking PRs
+ */
+
+import type { LLMProvider } from '@/lib/llm';
+import { parseDiff, formatDiff } from '@/lib/diff-parser';
+import { truncateDiff } from '@/lib/diff-truncation';
+import { detectApiChanges, isApiSourceFile } from '@/lib/api-surface';
+import { getDiffTokenBudget } from '@/lib/analysis';
+import { getModelContextWindow } from '@/lib/models';
+import { createMigrationGuidePrompt } from '@/lib/prompts';
+
+export interface MigrationGuideRequest {
+  diffContent: string;
+  description?: string;
+  /** The PR's note for the primary audience, if it has been generated */
+  releaseNote?: string;
+}
+
+interface MigrationGuideContext {
+  provider: LLMProvider;
+  signal: AbortSignal;
+  /** Receives each chunk of the guide as it streams */
+  onDelta: (delta: string) => void;
+  isClosed?: () => boolean;
+}
+
+/**
+ * Orders TypeScript API files first so the code the guide is about survives truncation
+ */
+const prioritizeApiFiles = (diffContent: string): string => {
+  const files = parseDiff(diffContent);
+  const api = files.filter(file => isApiSourceFile(file.path));
+  return api.length > 0 ? formatDiff([...api, ...files.filter(file => !isApiSourceFile(file.path))]) : diffContent;
+};
+
+/**
+ * Streams a Markdown migration guide and resolves with the full text,
+ * or null if the consumer went away
+ */
+export const generateMigrationGuide = async (
+  { diffContent, description = '', releaseNote = '' }: MigrationGuideRequest,
+  { provider, signal, onDelta, isClosed = () => false }: MigrationGuideContext
+): Promise<string | null> => {
+  const model = provider.defaultModel;
+  const apiChanges = detectApiChanges(parseDiff(diffContent));
+
+  const budget = getDiffTokenBudget(provider.contextWindow ?? getModelContextWindow(model), description);
+  const { diff } = truncateDiff(prioritizeApiFiles(diffContent), budget);
+
+  let guide = '';
+  const completion = provider.streamCompletion({
+    model,
+    messages: [{ role: 'user', content: createMigrationGuidePrompt(diff, description, releaseNote, apiChanges) }],
+    temperature: 0.2,
+    signal,
+  });
+
+  for await (const content of completion) {
+    if (isClosed() || signal.aborted) return null;
+    if (content) {
+      guide += content;
+      onDelta(content);
+    }
+  }
+
+  // Models sometimes wrap the whole answer in a fence despite the instructions
+  const trimmed = guide.trim().replace(/^```(?:markdown|md)?\n([\s\S]*)\n```$/, '$1').trim();
+  if (!trimmed) {
+    throw new Error('The model returned an empty migration guide');
+  }
+
+  return trimmed;
+};
@@ -0,0 +1,42 @@
+/**
+ * Model metadata used for budgeting prompts against context windows
+ */
+
+export const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Context window sizes (in tokens) for the models we know about.
+ * Entries are matched by prefix so dated snapshots resolve to their family.
+ */
+const CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['gpt-4.1', 1047576],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1-mini', 128000],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4-mini', 200000],
+];
+
+// Conservative default for unknown (e.g. self-hosted) models
+const FALLBACK_CONTEXT_WINDOW = 8192;
+
+/**
+ * Returns the context window for a model name
+ */
+export const getModelContextWindow = (model: string): number => {
+  const name = model.toLowerCase();
+  const match = CONTEXT_WINDOWS.find(([prefix]) => name.startsWith(prefix));
+  return match ? match[1] : FALLBACK_CONTEXT_WINDOW;
+};
+
+/**
+ * Estimates the token count of a string.
+ * Diffs are code-heavy, which tokenizes denser than prose, so we assume
+ * ~3.5 characters per token rather than the usual 4.
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 3.5);
+};
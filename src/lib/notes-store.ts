@@ -0,0 +1,101 @@
+/**
+ * Server-side storage for generated notes, shared by everyone using the app.
+ *
+ * Notes are stored per repository, PR and diff hash, so a PR whose diff
+ * changes gets fresh notes while unchanged PRs are never analyzed twice.
+ * The default store writes one JSON file per entry under `NOTES_STORE_DIR`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { normalizeReleaseNotes } from '@/lib/audiences';
+import type { PromptRef, ReleaseNotes } from '@/types/diff-analyzer';
+
+export interface NotesKey {
+  owner: string;
+  repo: string;
+  prId: string;
+  /** `hashDiff` of the PR's diff */
+  diffHash: string;
+}
+
+export interface StoredNotes extends NotesKey {
+  notes: ReleaseNotes;
+  /** Model that generated the notes */
+  model?: string;
+  /** Prompt template that generated the notes */
+  prompt?: PromptRef;
+  /** ISO timestamp of the last write */
+  updatedAt: string;
+}
+
+export interface NotesStore {
+  /** Resolves with null when nothing is stored for the key */
+  get(key: NotesKey): Promise<StoredNotes | null>;
+  put(entry: Omit<StoredNotes, 'updatedAt'>): Promise<StoredNotes>;
+}
+
+export const DEFAULT_NOTES_DIR = '.data/notes';
+
+const SEGMENT = /^[\w.-]+$/;
+
+/**
+ * Checks every part of a key is safe to use as a path segment
+ */
+export const isValidNotesKey = (key: Partial<NotesKey>): key is NotesKey => {
+  return [key.owner, key.repo, key.prId, key.diffHash].every(
+    segment => typeof segment === 'string' && SEGMENT.test(segment) && segment !== '..' && segment !== '.'
+  );
+};
+
+/**
+ * Stores each entry as `<dir>/<owner>/<repo>/<prId>/<diffHash>.json`
+ */
+export const createFileNotesStore = (dir: string = DEFAULT_NOTES_DIR): NotesStore => {
+  const root = path.resolve(process.cwd(), dir);
+
+  const fileFor = (key: NotesKey): string => {
+    if (!isValidNotesKey(key)) {
+      throw new Error(`Invalid notes key ${JSON.stringify(key)}`);
+    }
+    return path.join(root, key.owner, key.repo, key.prId, `${key.diffHash}.json`);
+  };
+
+  return {
+    async get(key) {
+      let saved: StoredNotes;
+      try {
+        saved = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+
+      const notes = normalizeReleaseNotes(saved.notes);
+      return notes ? { ...saved, notes } : null;
+    },
+
+    async put(entry) {
+      const file = fileFor(entry);
+      const stored: StoredNotes = { ...entry, updatedAt: new Date().toISOString() };
+
+      // Write then rename, so readers never see a half-written file
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temp, `${JSON.stringify(stored, null, 2)}\n`, 'utf8');
+      await fs.rename(temp, file);
+
+      return stored;
+    },
+  };
+};
+
+let store: NotesStore | null = null;
+
+/**
+ * The store configured by the environment, created on first use
+ */
+export const getNotesStore = (): NotesStore => {
+  store ??= createFileNotesStore(process.env.NOTES_STORE_DIR || DEFAULT_NOTES_DIR);
+  return store;
+};
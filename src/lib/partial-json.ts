@@ -0,0 +1,131 @@
+/**
+ * Incremental parser that pulls top-level string fields out of a JSON object
+ * while it is still streaming, so each field can be shown as tokens arrive.
+ *
+ * It is deliberately lenient: text before the first `{` (prose, code fences)
+ * is skipped, and nested objects and arrays are walked over but never emitted.
+ */
+
+export interface FieldDelta<Field extends string = string> {
+  field: Field;
+  delta: string;
+}
+
+export interface PartialJsonParser<Field extends string = string> {
+  /** Feeds the next chunk and returns the decoded text it added to each watched field */
+  push(chunk: string): FieldDelta<Field>[];
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+export const createPartialJsonParser = <Field extends string>(
+  fields: readonly Field[]
+): PartialJsonParser<Field> => {
+  let started = false;
+  let depth = 0;
+  let inString = false;
+  let isKey = false;
+  let expectingKey = false;
+  let escape = false;
+  let unicode: string | null = null;
+  let key = '';
+  let currentKey: string | null = null;
+  let target: Field | null = null;
+
+  const isWatched = (name: string | null): name is Field => {
+    return name !== null && (fields as readonly string[]).includes(name);
+  };
+
+  return {
+    push(chunk: string) {
+      const deltas = new Map<Field, string>();
+
+      const emit = (text: string) => {
+        if (!target) return;
+        deltas.set(target, (deltas.get(target) ?? '') + text);
+      };
+
+      const appendString = (text: string) => {
+        if (isKey) key += text;
+        else emit(text);
+      };
+
+      for (const char of chunk) {
+        if (!started) {
+          if (char === '{') {
+            started = true;
+            depth = 1;
+            expectingKey = true;
+          }
+          continue;
+        }
+
+        if (inString) {
+          if (unicode !== null) {
+            unicode += char;
+            if (unicode.length === 4) {
+              appendString(String.fromCharCode(parseInt(unicode, 16)));
+              unicode = null;
+            }
+          } else if (escape) {
+            escape = false;
+            if (char === 'u') unicode = '';
+            else appendString(ESCAPES[char] ?? char);
+          } else if (char === '\\') {
+            escape = true;
+          } else if (char === '"') {
+            inString = false;
+            if (isKey) {
+              currentKey = key;
+              isKey = false;
+            }
+            target = null;
+          } else {
+            appendString(char);
+          }
+          continue;
+        }
+
+        switch (char) {
+          case '"':
+            inString = true;
+            if (depth === 1 && expectingKey) {
+              isKey = true;
+              key = '';
+            } else if (depth === 1 && isWatched(currentKey)) {
+              target = currentKey;
+            }
+            break;
+          case ':':
+            if (depth === 1) expectingKey = false;
+            break;
+          case ',':
+            if (depth === 1) {
+              expectingKey = true;
+              currentKey = null;
+            }
+            break;
+          case '{':
+          case '[':
+            depth++;
+            break;
+          case '}':
+          case ']':
+            depth--;
+            break;
+        }
+      }
+
+      return Array.from(deltas, ([field, delta]) => ({ field, delta }));
+    },
+  };
+};
@@ -0,0 +1,165 @@
+/**
+ * Versioned prompt templates for release note generation.
+ *
+ * A template fixes the wording of the notes prompt. Once released, a template
+ * version is never edited: wording changes get a new version, so stored notes
+ * (and cache entries) record exactly which prompt produced them. Requests pick
+ * a template with `promptId` (`<id>` for its latest version, or `<id>@<version>`).
+ *
+ * The rest of the prompt text is generated by `src/lib/prompts.ts` from the
+ * audience config, so references resolved there also carry a hash of the text
+ * (`<id>@<version>+<hash>`); editing either one changes the reference without
+ * a version bump.
+ *
+ * Repositories can adjust the selected template through
+ * `src/config/prompt-overrides.json`, keyed by `owner/repo`: pick a different
+ * default template, add rules, or replace the example.
+ */
+
+import overridesConfig from '@/config/prompt-overrides.json';
+import { isAudienceId } from '@/lib/audiences';
+import type { ChangeCategory, PromptRef } from '@/types/diff-analyzer';
+
+export interface PromptExample {
+  /** What the example PR does, e.g. "a PR that improves error handling" */
+  title: string;
+  /** Example note per audience id; audiences without one use their configured example */
+  notes: Record<string, string>;
+  category: ChangeCategory;
+  scope: string | null;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description: string;
+  /** Opening line of the single-pass prompt */
+  role: string;
+  /** Opening lines of the map-reduce prompt */
+  reduceRole: string;
+  /** Rules for the category and scope fields */
+  categoryRules: string[];
+  example: PromptExample;
+}
+
+export interface PromptOverride {
+  /** Template used when a request doesn't name one */
+  template?: string;
+  /** Extra rules for every note */
+  rules?: string[];
+  /** Extra rules per audience id */
+  audienceRules?: Record<string, string[]>;
+  /** Replaces parts of the template's example */
+  example?: Partial<PromptExample>;
+}
+
+/**
+ * A template with a repository's overrides applied, ready to be formatted
+ */
+export interface ResolvedPrompt {
+  template: PromptTemplate;
+  rules: string[];
+  audienceRules: Record<string, string[]>;
+  example: PromptExample;
+  ref: PromptRef;
+}
+
+export const DEFAULT_PROMPT_ID = 'release-notes';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'release-notes',
+    version: 1,
+    description: 'One note per audience, with category and scope',
+    role: 'You are a specialized assistant that analyzes code diffs from Pull Requests and generates extremely concise release notes.',
+    reduceRole: 'You are a specialized assistant that generates extremely concise release notes for a large Pull Request.\nThe diff was too large to show at once, so each group of files has been summarized separately.',
+    categoryRules: [
+      'category: one of "breaking", "security", "feature", "fix", "perf", "other"',
+      'Use "breaking" only if existing users must change their code',
+      'scope: the area affected (e.g. "streaming", "auth"), or null if the change is broad',
+    ],
+    example: {
+      title: 'a PR that improves error handling',
+      notes: {},
+      category: 'feature',
+      scope: 'http',
+    },
+  },
+];
+
+const PROMPT_OVERRIDES = (overridesConfig as { repositories: Record<string, PromptOverride> }).repositories;
+
+/**
+ * Formats a template reference as `<id>@<version>`, followed by `+<hash>` when it has a text hash
+ */
+export const formatPromptRef = ({ id, version, textHash }: Pick<PromptRef, 'id' | 'version' | 'textHash'>): string =>
+  `${id}@${version}${textHash ? `+${textHash}` : ''}`;
+
+/**
+ * Checks a value has the shape of a prompt reference, e.g. from a stored entry
+ */
+export const isPromptRef = (value: unknown): value is PromptRef => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, version, repository, textHash } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof version === 'number' &&
+    (repository === undefined || typeof repository === 'string') &&
+    (textHash === undefined || typeof textHash === 'string');
+};
+
+/**
+ * Finds a template by `<id>` (latest version) or `<id>@<version>`
+ */
+export const getPromptTemplate = (promptId: string): PromptTemplate | undefined => {
+  const [id, version] = promptId.split('@');
+  const versions = PROMPT_TEMPLATES.filter(template => template.id === id);
+
+  if (version === undefined) {
+    return versions.reduce<PromptTemplate | undefined>(
+      (latest, template) => (!latest || template.version > latest.version ? template : latest),
+      undefined
+    );
+  }
+  return versions.find(template => String(template.version) === version);
+};
+
+/**
+ * Returns the overrides configured for a repository, if any
+ */
+export const getPromptOverride = (owner?: string, repo?: string): PromptOverride | undefined => {
+  return owner && repo ? PROMPT_OVERRIDES[`${owner}/${repo}`] : undefined;
+};
+
+/**
+ * Selects a template and applies the repository's overrides. Throws if the
+ * requested (or configured) template doesn't exist.
+ */
+export const resolvePrompt = ({ promptId, owner, repo }: { promptId?: string; owner?: string; repo?: string } = {}): ResolvedPrompt => {
+  const override = getPromptOverride(owner, repo);
+  const requested = promptId || override?.template || DEFAULT_PROMPT_ID;
+  const template = getPromptTemplate(requested);
+
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${requested}`);
+  }
+
+  // Ignore rules for audiences that aren't enabled
+  const audienceRules = Object.fromEntries(
+    Object.entries(override?.audienceRules ?? {}).filter(([id]) => isAudienceId(id))
+  );
+
+  return {
+    template,
+    rules: override?.rules ?? [],
+    audienceRules,
+    example: {
+      ...template.example,
+      ...override?.example,
+      notes: { ...template.example.notes, ...override?.example?.notes },
+    },
+    ref: {
+      id: template.id,
+      version: template.version,
+      ...(override ? { repository: `${owner}/${repo}` } : {}),
+    },
+  };
+};
@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashPromptText, resolveHashedPrompt } from './prompts';
+import { formatPromptRef, resolvePrompt } from './prompt-registry';
+
+describe('resolveHashedPrompt', () => {
+  it('adds a stable hash of the prompt text to the reference', () => {
+    const { ref } = resolveHashedPrompt();
+
+    assert.match(ref.textHash ?? '', /^[0-9a-f]{12}$/);
+    assert.equal(resolveHashedPrompt().ref.textHash, ref.textHash);
+    assert.equal(formatPromptRef(ref), `release-notes@1+${ref.textHash}`);
+  });
+
+  it('changes the hash when the text changes under the same version', () => {
+    const prompt = resolvePrompt();
+    const reworded = { ...prompt, rules: ['Mention the ticket number'] };
+
+    assert.equal(reworded.ref.version, prompt.ref.version);
+    assert.notEqual(hashPromptText(reworded), hashPromptText(prompt));
+  });
+});
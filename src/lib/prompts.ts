@@ -0,0 +1,231 @@
+/**
+ * Prompt builders for release note generation. The wording of the notes
+ * prompts comes from the versioned templates in `src/lib/prompt-registry.ts`.
+ */
+
+import { createHash } from 'crypto';
+import { formatOmissionSummary } from '@/lib/diff-truncation';
+import { formatGroupSummaries, type FileGroupSummary } from '@/lib/map-reduce';
+import { formatApiChanges } from '@/lib/api-surface';
+import { AUDIENCES, AUDIENCE_IDS, PRIMARY_AUDIENCE, SUMMARY_AUDIENCE, getNote, type Audience } from '@/lib/audiences';
+import { resolvePrompt, type ResolvedPrompt } from '@/lib/prompt-registry';
+import type { ApiChange, TruncationSummary } from '@/types/diff-analyzer';
+import type { ReleaseSection } from '@/types/release-document';
+
+/**
+ * Numbered guidelines for one audience's note, from its config entry and any repository rules
+ */
+const formatAudienceGuidelines = (audience: Audience, index: number, extraRules: string[] = []): string => {
+  const { format } = audience;
+  const rules = [
+    ...audience.instructions,
+    ...extraRules,
+    `Max ${audience.maxLength} characters`,
+    ...(format.codeSpans ? ['Use markdown code tags for technical terms'] : []),
+    ...(format.boldBenefit ? ['Bold the main benefit'] : []),
+    format.singleSentence ? 'Single sentence only' : 'One line only, no line breaks',
+  ];
+
+  return `${index + 1}. ${audience.name}:\n${rules.map(rule => `   - ${rule}`).join('\n')}`;
+};
+
+const OUTPUT_FORMAT = JSON.stringify({
+  ...Object.fromEntries(AUDIENCES.map(audience => [audience.id, `${audience.description} (max ${audience.maxLength} chars)`])),
+  category: 'feature',
+  scope: 'area or null',
+}, null, 2);
+
+/**
+ * Task description, output format and example shared by the single-pass and
+ * reduce prompts, generated from the configured audiences and the selected template
+ */
+const formatInstructions = ({ template, rules, audienceRules, example }: ResolvedPrompt): string => {
+  const outputExample = JSON.stringify({
+    ...Object.fromEntries(AUDIENCES.map(audience => [audience.id, example.notes[audience.id] ?? audience.example])),
+    category: example.category,
+    scope: example.scope,
+  }, null, 2);
+
+  return `
+# YOUR TASK:
+Generate ${AUDIENCES.length} types of release notes for this PR, following these specific guidelines:
+
+${AUDIENCES.map((audience, index) => formatAudienceGuidelines(audience, index, audienceRules[audience.id])).join('\n\n')}
+
+${AUDIENCES.length + 1}. Category and scope:
+${template.categoryRules.map(rule => `   - ${rule}`).join('\n')}
+${rules.length > 0 ? `
+# ADDITIONAL RULES:
+${rules.map(rule => `- ${rule}`).join('\n')}
+` : ''}
+# OUTPUT FORMAT:
+Respond ONLY with a JSON object having the following structure:
+${OUTPUT_FORMAT}
+
+# EXAMPLE:
+For ${example.title}:
+${outputExample}
+`;
+};
+
+/**
+ * Lists breaking API changes found by static analysis as facts the notes must reflect
+ */
+const formatApiChangesSection = (apiChanges: ApiChange[] = []): string => {
+  if (apiChanges.length === 0) return '';
+
+  return `
+# BREAKING API CHANGES (found by static analysis, treat as facts):
+${formatApiChanges(apiChanges)}
+Mention the most important of these in the "${PRIMARY_AUDIENCE}" note and use the "breaking" category.
+`;
+};
+
+/**
+ * Creates a prompt for the LLM to generate release notes from a diff
+ */
+export const createLLMPrompt = (
+  diff: string,
+  description: string,
+  truncation?: TruncationSummary,
+  apiChanges?: ApiChange[],
+  prompt: ResolvedPrompt = resolvePrompt()
+): string => {
+  const omissions = truncation ? formatOmissionSummary(truncation) : '';
+
+  return `
+${prompt.template.role}
+
+# PR TITLE:
+${description}
+
+# DIFF CONTENT:
+\`\`\`
+${diff}
+\`\`\`
+${omissions ? `
+# OMITTED FROM DIFF:
+${omissions}
+Base your notes only on the content shown above; do not guess what omitted files contain.
+` : ''}${formatApiChangesSection(apiChanges)}${formatInstructions(prompt)}`;
+};
+
+/**
+ * Creates the reduce-step prompt that writes release notes from per-file summaries
+ */
+export const createReducePrompt = (
+  summaries: FileGroupSummary[],
+  description: string,
+  skippedGroups: number,
+  apiChanges?: ApiChange[],
+  prompt: ResolvedPrompt = resolvePrompt()
+): string => {
+  return `
+${prompt.template.reduceRole}
+
+# PR TITLE:
+${description}
+
+# FILE SUMMARIES:
+${formatGroupSummaries(summaries)}
+${skippedGroups > 0 ? `\n(${skippedGroups} further group(s) of files were not summarized.)\n` : ''}
+Weigh the summaries together and describe the overall change, not each file.
+${formatApiChangesSection(apiChanges)}${formatInstructions(prompt)}`;
+};
+
+/**
+ * Creates the follow-up prompt asking the model to fix output that failed validation
+ */
+export const createRepairPrompt = (errors: string[]): string => {
+  return `
+Your previous response could not be used as release notes because it failed validation:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY a JSON object of the form {${AUDIENCE_IDS.map(id => `"${id}": "..."`).join(', ')}, "category": "...", "scope": "..." or null}.
+Each note must be a single line within its length limit: ${AUDIENCES.map(audience => `${audience.id} ${audience.maxLength}`).join(', ')} characters.
+Do not add any other keys or text.
+`;
+};
+
+/**
+ * Hash of the notes, reduce and repair prompts a template produces, rendered
+ * without a PR, so it changes with the wording here and in the audience config
+ */
+export const hashPromptText = (prompt: ResolvedPrompt): string => {
+  const text = [
+    createLLMPrompt('', '', undefined, undefined, prompt),
+    createReducePrompt([], '', 0, undefined, prompt),
+    createRepairPrompt([]),
+  ].join('\n');
+  return createHash('sha256').update(text).digest('hex').slice(0, 12);
+};
+
+/**
+ * Resolves a template like `resolvePrompt`, adding the hash of its prompt text to the reference
+ */
+export const resolveHashedPrompt = (options?: Parameters<typeof resolvePrompt>[0]): ResolvedPrompt => {
+  const prompt = resolvePrompt(options);
+  return { ...prompt, ref: { ...prompt.ref, textHash: hashPromptText(prompt) } };
+};
+
+/**
+ * Creates the prompt for a short headline summarizing a whole release
+ */
+export const createHeadlinePrompt = (repo: string, sections: ReleaseSection[]): string => {
+  const notes = sections
+    .map(section => `## ${section.title}\n${section.items.map(item => `- ${(item.notes && getNote(item.notes, SUMMARY_AUDIENCE)) || item.title}`).join('\n')}`)
+    .join('\n\n');
+
+  return `
+You are writing the opening line of the release notes for ${repo}.
+
+# CHANGES IN THIS RELEASE:
+${notes}
+
+# YOUR TASK:
+Summarize the release in one or two sentences (max 200 characters) for end users.
+- Lead with the most significant change; mention breaking changes if there are any
+- Simple, non-technical language; bold the main theme
+- Respond with the summary text only, no heading, quotes or JSON
+`;
+};
+
+/**
+ * Creates the prompt for a migration guide for a breaking PR
+ */
+export const createMigrationGuidePrompt = (
+  diff: string,
+  description: string,
+  releaseNote: string,
+  apiChanges: ApiChange[] = []
+): string => {
+  return `
+You are writing a migration guide for developers upgrading past a breaking Pull Request.
+
+# PR TITLE:
+${description}
+
+# RELEASE NOTE:
+${releaseNote}
+${formatApiChangesSection(apiChanges)}
+# DIFF CONTENT:
+\`\`\`
+${diff}
+\`\`\`
+
+# YOUR TASK:
+Write a concise migration guide in Markdown with these sections:
+
+## What changed
+One or two sentences on what breaks and who is affected.
+
+## Before / After
+For each breaking change, a fenced \`\`\`ts block showing usage before the change, then one showing usage after.
+Build the snippets from the removed (-) and added (+) lines of the diff; do not invent APIs that are not in the diff.
+
+## Steps
+A numbered list of what callers need to change.
+
+Respond with the Markdown only, without wrapping it in a code fence.
+`;
+};
@@ -0,0 +1,239 @@
+/**
+ * Consolidated release notes for a set of PRs.
+ *
+ * Analyzes each PR with bounded concurrency, drops duplicates (the same diff
+ * cherry-picked twice, or PRs whose notes come out identical), groups the
+ * results into sections and writes a headline summary for the release.
+ */
+
+import type { PR } from '@/lib/utils';
+import type { LLMProvider } from '@/lib/llm';
+import { runAnalysis } from '@/lib/analysis';
+import type { AnalysisCache } from '@/lib/analysis-cache';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { createHeadlinePrompt } from '@/lib/prompts';
+import { RELEASE_SECTIONS } from '@/lib/release-sections';
+import { getDeclaredCategory, resolveCategory } from '@/lib/categorize';
+import { PRIMARY_AUDIENCE, getNote } from '@/lib/audiences';
+import type {
+  ReleaseDocument,
+  ReleaseItem,
+  ReleaseSection,
+  ReleaseSectionId,
+  ReleaseStreamEvent,
+} from '@/types/release-document';
+
+// PRs analyzed at once; each one may itself run several completions
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * Reduces a diff to its added and removed lines, so the same change applied
+ * to different branches (different index lines and hunk offsets) compares equal
+ */
+const normalizeDiff = (diff: string): string => {
+  return diff
+    .split('\n')
+    .filter(line => /^[+-]/.test(line) && !/^(\+\+\+|---) /.test(line))
+    .map(line => line.trimEnd())
+    .join('\n');
+};
+
+const normalizeNote = (note: string): string => {
+  return note.toLowerCase().replace(/[`*_.,!]/g, '').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Maps each PR whose diff repeats an earlier PR's to the id of that earlier PR
+ */
+export const findDuplicateDiffs = (prs: PR[]): Map<string, string> => {
+  const seen = new Map<string, string>();
+  const duplicates = new Map<string, string>();
+
+  for (const pr of prs) {
+    const key = normalizeDiff(pr.diff);
+    const original = key ? seen.get(key) : undefined;
+    if (original) {
+      duplicates.set(pr.id, original);
+    } else if (key) {
+      seen.set(key, pr.id);
+    }
+  }
+
+  return duplicates;
+};
+
+/**
+ * Groups completed items into the document's sections, leaving out empty ones
+ */
+export const buildSections = (items: ReleaseItem[]): ReleaseSection[] => {
+  return RELEASE_SECTIONS
+    .map(({ id, title }) => ({
+      id,
+      title,
+      items: items.filter(item => item.section === id && item.status === 'completed'),
+    }))
+    .filter(section => section.items.length > 0);
+};
+
+interface ReleaseAnalysisOptions {
+  owner: string;
+  repo: string;
+  provider: LLMProvider;
+  emit: (event: ReleaseStreamEvent) => void;
+  signal: AbortSignal;
+  isClosed?: () => boolean;
+  concurrency?: number;
+  /** Shared with single-PR analyses, so PRs analyzed before aren't sent to the model again */
+  cache?: AnalysisCache;
+}
+
+/**
+ * Analyzes every PR and assembles the release document, emitting each item as it
+ * finishes and each section once all of its items have. Resolves with null if aborted.
+ */
+export const runReleaseAnalysis = async (
+  prs: PR[],
+  { owner, repo, provider, emit, signal, isClosed = () => false, concurrency = DEFAULT_CONCURRENCY, cache }: ReleaseAnalysisOptions
+): Promise<ReleaseDocument | null> => {
+  const closed = () => isClosed() || signal.aborted;
+  const duplicateDiffs = findDuplicateDiffs(prs);
+  const items = new Map<string, ReleaseItem>();
+  const emittedSections = new Set<ReleaseSectionId>();
+
+  // A section is final once every PR declared in it has finished, and every PR
+  // whose category only the model can decide has finished too
+  const pendingBySection = new Map<ReleaseSectionId, number>();
+  let undetermined = 0;
+
+  const declaredOf = (pr: PR) => getDeclaredCategory(pr.description, pr.labels);
+  for (const pr of prs) {
+    const declared = declaredOf(pr);
+    if (declared) {
+      pendingBySection.set(declared, (pendingBySection.get(declared) ?? 0) + 1);
+    } else {
+      undetermined++;
+    }
+  }
+
+  // Finished items in the PRs' original order
+  const orderedItems = () => prs.map(pr => items.get(pr.id)).filter((item): item is ReleaseItem => !!item);
+
+  emit({ type: 'start', data: { total: prs.length } });
+
+  const finishItem = (item: ReleaseItem, declared: ReleaseSectionId | null) => {
+    items.set(item.id, item);
+    emit({ type: 'item', data: item });
+
+    if (declared) {
+      pendingBySection.set(declared, (pendingBySection.get(declared) ?? 1) - 1);
+    } else {
+      undetermined--;
+    }
+    if (undetermined > 0) return;
+
+    for (const section of buildSections(orderedItems())) {
+      if (!emittedSections.has(section.id) && !pendingBySection.get(section.id)) {
+        emittedSections.add(section.id);
+        emit({ type: 'section', data: section });
+      }
+    }
+  };
+
+  const findDuplicateNotes = (item: ReleaseItem): string | undefined => {
+    if (!item.notes) return undefined;
+    const note = normalizeNote(getNote(item.notes, PRIMARY_AUDIENCE));
+    const match = Array.from(items.values()).find(other =>
+      other.status === 'completed' && other.notes && normalizeNote(getNote(other.notes, PRIMARY_AUDIENCE)) === note
+    );
+    return match?.id;
+  };
+
+  await mapWithConcurrency(prs, concurrency, async (pr) => {
+    if (closed()) return;
+
+    const declared = declaredOf(pr);
+    const base = {
+      id: pr.id,
+      title: pr.description,
+      url: pr.url,
+      section: declared ?? resolveCategory({ title: pr.description, labels: pr.labels }).category,
+    };
+
+    const duplicateOf = duplicateDiffs.get(pr.id);
+    if (duplicateOf) {
+      finishItem({ ...base, status: 'duplicate', duplicateOf }, declared);
+      return;
+    }
+
+    try {
+      const outcome = await runAnalysis(
+        { diffContent: pr.diff, diffId: pr.id, description: pr.description, labels: pr.labels, owner, repo },
+        { provider, signal, isClosed, cache, emit: () => {} }
+      );
+
+      if (outcome.status === 'aborted') {
+        if (closed()) return;
+        // The client is still connected, so a provider error was reported as an abort
+        finishItem({ ...base, status: 'failed', message: outcome.message ?? 'Analysis was interrupted' }, declared);
+        return;
+      }
+
+      if (outcome.status === 'skipped') {
+        finishItem({ ...base, status: 'skipped', message: outcome.message }, declared);
+        return;
+      }
+
+      const item: ReleaseItem = {
+        ...base,
+        section: outcome.notes.category ?? base.section,
+        status: 'completed',
+        notes: outcome.notes,
+      };
+      const duplicateNotesOf = findDuplicateNotes(item);
+      finishItem(duplicateNotesOf ? { ...item, status: 'duplicate', duplicateOf: duplicateNotesOf } : item, declared);
+    } catch (error) {
+      if (closed()) return;
+      finishItem({
+        ...base,
+        status: 'failed',
+        message: error instanceof Error ? error.message : 'Unknown error during analysis',
+      }, declared);
+    }
+  });
+
+  if (closed()) return null;
+
+  const sections = buildSections(orderedItems());
+
+  let headline: string | null = null;
+  if (sections.length > 0) {
+    try {
+      const text = await provider.complete({
+        model: provider.defaultModel,
+        messages: [{ role: 'user', content: createHeadlinePrompt(`${owner}/${repo}`, sections) }],
+        temperature: 0.3,
+        signal,
+      });
+      headline = text.trim().replace(/^["']|["']$/g, '') || null;
+    } catch (error) {
+      // The document is still useful without a headline
+      if (closed()) return null;
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to generate release headline:', error);
+      }
+    }
+    if (closed()) return null;
+    if (headline) {
+      emit({ type: 'summary', data: headline });
+    }
+  }
+
+  return {
+    owner,
+    repo,
+    headline,
+    sections,
+    model: provider.defaultModel,
+    generatedAt: Date.now(),
+  };
+};
@@ -0,0 +1,163 @@
+/**
+ * Schema, extraction and validation for the `ReleaseNotes` the model returns
+ */
+
+import { CHANGE_CATEGORIES, isChangeCategory } from '@/lib/categorize';
+import { AUDIENCES, AUDIENCE_IDS } from '@/lib/audiences';
+import type { ReleaseNotes } from '@/types/diff-analyzer';
+
+/**
+ * JSON Schema sent to providers that support structured output, with one
+ * property per configured audience.
+ * Strict structured-output modes don't accept length keywords, so lengths
+ * are enforced by `validateReleaseNotes` instead.
+ */
+export const RELEASE_NOTES_SCHEMA = {
+  type: 'object',
+  properties: {
+    ...Object.fromEntries(AUDIENCES.map(audience => [audience.id, {
+      type: 'string',
+      description: `${audience.description} (max ${audience.maxLength} characters)`,
+    }])),
+    category: {
+      type: 'string',
+      enum: CHANGE_CATEGORIES,
+      description: 'Kind of change',
+    },
+    scope: {
+      type: ['string', 'null'],
+      description: 'Area of the codebase affected, e.g. "streaming", or null',
+    },
+  },
+  // Strict structured-output modes require every property to be listed
+  required: [...AUDIENCE_IDS, 'category', 'scope'],
+  additionalProperties: false,
+};
+
+export const RELEASE_NOTES_SCHEMA_NAME = 'release_notes';
+
+// The text fields every response must contain; category and scope are optional
+// because the PR title and labels can supply them
+export const NOTES_FIELDS = AUDIENCE_IDS;
+
+// Models count characters loosely, so a note may run up to 10% over its
+// audience's max length before it's sent back for repair
+const LENGTH_TOLERANCE = 0.1;
+const hardLimit = (maxLength: number) => Math.floor(maxLength * (1 + LENGTH_TOLERANCE));
+
+export type ValidationResult =
+  | { valid: true; notes: ReleaseNotes }
+  | { valid: false; errors: string[] };
+
+/**
+ * Finds the first balanced JSON object in a text, ignoring braces inside strings
+ */
+export const extractJsonObject = (text: string): string | null => {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validates a parsed value against the release notes schema
+ */
+export const validateReleaseNotes = (value: unknown): ValidationResult => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const { id: field, maxLength } of AUDIENCES) {
+    const note = record[field];
+    if (note === undefined) {
+      errors.push(`Missing required field "${field}"`);
+    } else if (typeof note !== 'string') {
+      errors.push(`Field "${field}" must be a string, got ${Array.isArray(note) ? 'array' : typeof note}`);
+    } else if (!note.trim()) {
+      errors.push(`Field "${field}" must not be empty`);
+    } else if (note.length > hardLimit(maxLength)) {
+      errors.push(`Field "${field}" is ${note.length} characters; keep it under ${maxLength}`);
+    } else if (note.includes('\n')) {
+      errors.push(`Field "${field}" must be a single line`);
+    }
+  }
+
+  if (record.category !== undefined && record.category !== null && !isChangeCategory(record.category)) {
+    errors.push(`Field "category" must be one of: ${CHANGE_CATEGORIES.join(', ')}`);
+  }
+  if (record.scope !== undefined && record.scope !== null && typeof record.scope !== 'string') {
+    errors.push('Field "scope" must be a string or null');
+  }
+
+  const extra = Object.keys(record).filter(key => !(key in RELEASE_NOTES_SCHEMA.properties));
+  if (extra.length > 0) {
+    errors.push(`Unexpected field(s): ${extra.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    notes: {
+      audiences: Object.fromEntries(AUDIENCE_IDS.map(id => [id, (record[id] as string).trim()])),
+      ...(isChangeCategory(record.category) ? { category: record.category } : {}),
+      ...(typeof record.scope === 'string' && record.scope.trim() ? { scope: record.scope.trim() } : {}),
+    },
+  };
+};
+
+/**
+ * Extracts, parses and validates release notes from raw model output
+ */
+export const parseReleaseNotes = (text: string): ValidationResult => {
+  const json = extractJsonObject(text);
+  if (!json) {
+    const error = text.includes('{')
+      ? 'Response JSON object is incomplete (unbalanced braces or unterminated string)'
+      : 'Response did not contain a JSON object';
+    return { valid: false, errors: [error] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  return validateReleaseNotes(value);
+};
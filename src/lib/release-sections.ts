@@ -0,0 +1,15 @@
+/**
+ * Sections that release notes are grouped into, one per change category
+ */
+
+import type { ReleaseSectionId } from '@/types/release-document';
+
+// Sections in the order they appear in the document
+export const RELEASE_SECTIONS: { id: ReleaseSectionId; title: string }[] = [
+  { id: 'breaking', title: 'Breaking Changes' },
+  { id: 'security', title: 'Security' },
+  { id: 'feature', title: 'Features' },
+  { id: 'fix', title: 'Fixes' },
+  { id: 'perf', title: 'Performance' },
+  { id: 'other', title: 'Other Changes' },
+];
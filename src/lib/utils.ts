@@ -1,10 +1,19 @@
 // Utility functions removed - cn() was unused
 
+import { parseDiff, getDiffStats, type DiffFile } from '@/lib/diff-parser';
+
 export interface PR {
   id: string;
   description: string;
   diff: string;
   url: string;
+  labels?: string[];
+  /** Author's username (or, for a local checkout, name) */
+  author?: string;
+  /** Branch the PR was merged into */
+  baseBranch?: string;
+  /** ISO timestamp of the merge */
+  mergedAt?: string;
   isRelevant?: boolean;
 }
 
@@ -14,7 +23,7 @@ export interface PR {
 export const filterRelevantPRs = (prs: PR[]): PR[] => {
   return prs.filter(pr => {
     const title = pr.description.toLowerCase();
-    const diff = pr.diff.toLowerCase();
+    const files = parseDiff(pr.diff);
     
     // 1. EXCLUDE: Internal/housekeeping PRs
     const excludePatterns = [
@@ -130,18 +139,16 @@ export const filterRelevantPRs = (prs: PR[]): PR[] => {
     ];
     
     // Count relevant vs irrelevant file changes
-    const diffLines = diff.split('\n');
     let relevantFileCount = 0;
     let irrelevantFileCount = 0;
     
-    diffLines.forEach(line => {
-      if (line.startsWith('+++') || line.startsWith('---')) {
-        if (relevantFiles.some(pattern => pattern.test(line))) {
-          relevantFileCount++;
-        }
-        if (irrelevantFiles.some(pattern => pattern.test(line))) {
-          irrelevantFileCount++;
-        }
+    files.forEach(file => {
+      const path = file.path.toLowerCase();
+      if (relevantFiles.some(pattern => pattern.test(path))) {
+        relevantFileCount++;
+      }
+      if (irrelevantFiles.some(pattern => pattern.test(path))) {
+        irrelevantFileCount++;
       }
     });
     
@@ -150,10 +157,8 @@ export const filterRelevantPRs = (prs: PR[]): PR[] => {
       return false;
     }
     
-    // 4. Size heuristics
-    const additions = (diff.match(/\+[^+]/g) || []).length;
-    const deletions = (diff.match(/-[^-]/g) || []).length;
-    const totalChanges = additions + deletions;
+    // 4. Size heuristics (only real added/removed lines, not +/- inside code)
+    const { changes: totalChanges } = getDiffStats(files);
     
     // Very small changes (< 10 lines) are often not worth noting
     // unless they fix critical bugs
@@ -170,9 +175,11 @@ export const filterRelevantPRs = (prs: PR[]): PR[] => {
  * Ranks PRs by importance
  */
 export const rankPRs = (prs: PR[]): PR[] => {
+  // Score once per PR so each diff is only parsed once
+  const scores = new Map(prs.map(pr => [pr, calculatePRScore(pr)]));
   return prs.sort((a, b) => {
-    const scoreA = calculatePRScore(a);
-    const scoreB = calculatePRScore(b);
+    const scoreA = scores.get(a) ?? 0;
+    const scoreB = scores.get(b) ?? 0;
     return scoreB - scoreA;
   });
 };
@@ -197,9 +204,25 @@ const calculatePRScore = (pr: PR): number => {
   if (/refactor/i.test(title)) score += 20;
   if (/update/i.test(title)) score += 10;
   
+  // Diff-based signals: source changes outrank config/docs-only changes
+  const files = parseDiff(pr.diff);
+  if (files.some(isSourceFile)) score += 15;
+  if (files.some(file => file.status === 'deleted' && isSourceFile(file))) score += 10;
+  score += Math.min(getDiffStats(files).changes / 50, 10);
+  
   return score;
 };
 
+/**
+ * Checks whether a parsed file is library/application source rather than tests or config
+ */
+const isSourceFile = (file: DiffFile): boolean => {
+  const path = file.path.toLowerCase();
+  return /\.(ts|tsx|js|jsx|mjs|cjs)$/.test(path) &&
+    !/(^|\/)(test|tests|__tests__)\//.test(path) &&
+    !/\.(spec|test)\./.test(path);
+};
+
 /**
  * Quick decision method for PR relevance
  */
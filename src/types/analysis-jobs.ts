@@ -0,0 +1,38 @@
+/**
+ * Types for background analysis jobs and the jobs API
+ */
+
+import type { PromptRef, ReleaseNotes } from './diff-analyzer';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A job as listed by `GET /api/jobs`
+ */
+export interface AnalysisJobSummary {
+  id: string;
+  status: AnalysisJobStatus;
+  /** Higher runs first; interactive analyses outrank background ones */
+  priority: number;
+  diffId?: string;
+  description?: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** Events buffered so far, for resuming the job's stream */
+  eventCount: number;
+  model?: string;
+  prompt?: PromptRef;
+  /** The notes were replayed from the analysis cache */
+  cached?: boolean;
+  /** Why the job failed, or why it was skipped */
+  message?: string;
+}
+
+/**
+ * A job as returned by `GET /api/jobs/:id`
+ */
+export interface AnalysisJobDetail extends AnalysisJobSummary {
+  notes?: ReleaseNotes;
+}
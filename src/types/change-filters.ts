@@ -0,0 +1,20 @@
+/**
+ * Types for narrowing the merged PRs listed by `/api/sample-diffs`
+ */
+
+export interface ChangeFilters {
+  /** Merged on or after this date (`YYYY-MM-DD` or an ISO timestamp) */
+  mergedAfter?: string;
+  /** Merged before this date (`YYYY-MM-DD` or an ISO timestamp) */
+  mergedBefore?: string;
+  /** Labels the PR must all have */
+  labels?: string[];
+  /** Labels the PR must not have */
+  excludeLabels?: string[];
+  /** Author's username (for a local checkout: name or email) */
+  author?: string;
+  /** Branch the PR was merged into */
+  baseBranch?: string;
+  /** Text the title must contain, case-insensitive */
+  search?: string;
+}
@@ -6,18 +6,175 @@ export interface DiffAnalyzerProps {
   diffId: string;
   diffContent: string;
   description: string;
+  labels?: string[];
+  /** Repository the PR belongs to, used to share notes through the server store */
+  owner?: string;
+  repo?: string;
+  /** Called with the final notes once an analysis completes */
+  onNotesChange?: (notes: ReleaseNotes) => void;
 }
 
+/**
+ * What kind of change a PR makes, used to group and filter release notes
+ */
+export type ChangeCategory = 'breaking' | 'security' | 'feature' | 'fix' | 'perf' | 'other';
+
 export interface ReleaseNotes {
-  developer: string;
-  marketing: string;
+  /** One note per audience, keyed by the audience id from `src/config/audiences.json` */
+  audiences: Record<string, string>;
+  /** Resolved from the PR title's conventional prefix, its labels and the model, in that order */
+  category?: ChangeCategory;
+  /** Area of the codebase the change applies to, e.g. `streaming` in `feat(streaming): ...` */
+  scope?: string;
+  /** Claims the grounding check could not find in the diff or PR title */
+  unsupportedClaims?: GroundingIssue[];
+  /** Breaking API changes found by static analysis, independent of the model's output */
+  apiChanges?: ApiChange[];
+  /** Markdown migration guide, generated on request for breaking changes */
+  migrationGuide?: string;
+}
+
+/**
+ * A code span or numeric claim in the notes that the diff doesn't support
+ */
+export interface GroundingIssue {
+  field: NotesField;
+  claim: string;
+  kind: 'identifier' | 'number';
+}
+
+export type ApiChangeKind =
+  | 'export-removed'
+  | 'export-renamed'
+  | 'signature-changed'
+  | 'optional-param-removed'
+  | 'type-narrowed'
+  | 'member-removed';
+
+/**
+ * A likely breaking change to a TypeScript file's public API, found by static analysis of the diff
+ */
+export interface ApiChange {
+  kind: ApiChangeKind;
+  file: string;
+  /** Export or member name, e.g. `createClient` or `ClientOptions.timeout` */
+  name: string;
+  /** One-line description of what changed */
+  detail: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * How the analysis handles large diffs: `auto` switches to map-reduce when the diff doesn't fit
+ */
+export type AnalysisMode = 'auto' | 'single' | 'map-reduce';
+
+export type StreamEventType =
+  | 'start'
+  | 'progress'
+  | 'notes'
+  | 'notes-delta'
+  | 'truncation'
+  | 'retry'
+  | 'api-changes'
+  | 'complete'
+  | 'error'
+  | 'message';
+
+export type OmissionReason = 'low-signal' | 'budget';
+
+export interface OmittedFile {
+  path: string;
+  reason: OmissionReason;
+  tokens: number;
+}
+
+export interface PartialFile {
+  path: string;
+  keptHunks: number;
+  totalHunks: number;
+  /** Lines cut from the end of the last kept hunk, which alone didn't fit */
+  cutLines?: number;
+}
+
+export interface TruncationSummary {
+  truncated: boolean;
+  originalTokens: number;
+  keptTokens: number;
+  budgetTokens: number;
+  omittedFiles: OmittedFile[];
+  partialFiles: PartialFile[];
+}
+
+export type FileSummaryStatus = 'running' | 'done' | 'failed';
+
+export interface FileGroupProgress {
+  index: number;
+  files: string[];
+  status: FileSummaryStatus;
+}
+
+/**
+ * Progress of a multi-pass (map-reduce) analysis, sent as `progress` event data
+ */
+export interface MapReduceProgress {
+  stage: 'map' | 'reduce';
+  completed: number;
+  total: number;
+  group?: FileGroupProgress;
+}
+
+/**
+ * Id of an audience from `src/config/audiences.json`, e.g. `developer`
+ */
+export type NotesField = string;
+
+/**
+ * Text appended to one notes field while the model's response streams
+ */
+export interface NotesDelta {
+  field: NotesField;
+  delta: string;
+}
+
+/**
+ * Sent before a repair attempt after the model's output failed validation
+ */
+export interface RetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  errors: string[];
+  /** Why the notes are being regenerated; defaults to `validation` */
+  reason?: 'validation' | 'grounding';
+}
+
+/**
+ * Identifies the prompt template that produced a set of notes
+ */
+export interface PromptRef {
+  id: string;
+  version: number;
+  /** `owner/repo` whose prompt overrides were applied, if any */
+  repository?: string;
+  /** Hash of the prompt text, which also depends on `src/lib/prompts.ts` and the audience config */
+  textHash?: string;
 }
 
-export type StreamEventType = 'start' | 'progress' | 'notes' | 'complete' | 'error' | 'message';
+/**
+ * Sent as `start` event data when an analysis begins
+ */
+export interface AnalysisStart {
+  diffId?: string;
+  model: string;
+  prompt?: PromptRef;
+  /** The notes are replayed from the analysis cache rather than generated */
+  cached?: boolean;
+}
 
 export interface StreamEvent {
   type: StreamEventType;
-  data?: string | ReleaseNotes;
+  data?: string | AnalysisStart | ReleaseNotes | NotesDelta | TruncationSummary | MapReduceProgress | RetryInfo | ApiChange[];
   error?: string;
 }
 
@@ -25,17 +182,34 @@ export interface AnalysisState {
   loading: boolean;
   error: string | null;
   notes: ReleaseNotes | null;
+  /** Notes text streamed so far, before the full object has been validated */
+  partialNotes: ReleaseNotes;
   streamProgress: string;
   messageInfo: string | null;
+  truncation: TruncationSummary | null;
+  mapReduce: MapReduceProgress | null;
+  fileCoverage: Record<string, FileSummaryStatus>;
+  retry: RetryInfo | null;
+  apiChanges: ApiChange[];
+  /** The notes were replayed from the server's analysis cache */
+  cached: boolean;
 }
 
 export interface MarkdownComponentProps {
   content: string;
   className?: string;
+  /** Closes unterminated markdown so partial text renders cleanly */
+  streaming?: boolean;
+  /** Inline code spans to highlight as unsupported by the diff */
+  flaggedTerms?: string[];
 }
 
 export interface PersistedAnalysisState {
   notes: ReleaseNotes | null;
   timestamp: number;
   isComplete: boolean;
+  /** Model that generated the notes */
+  model?: string;
+  /** Prompt template that generated the notes */
+  prompt?: PromptRef;
 }
\ No newline at end of file
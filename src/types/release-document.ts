@@ -0,0 +1,70 @@
+/**
+ * Types for consolidated release notes covering a set of PRs
+ */
+
+import type { ChangeCategory, ReleaseNotes } from '@/types/diff-analyzer';
+
+// Each change category gets its own section
+export type ReleaseSectionId = ChangeCategory;
+
+export type ReleaseItemStatus = 'completed' | 'skipped' | 'failed' | 'duplicate';
+
+/**
+ * One PR's entry in the release document
+ */
+export interface ReleaseItem {
+  id: string;
+  title: string;
+  url: string;
+  section: ReleaseSectionId;
+  status: ReleaseItemStatus;
+  notes?: ReleaseNotes;
+  /** Why the PR was skipped or failed */
+  message?: string;
+  /** The PR this one duplicates, by diff or by identical notes */
+  duplicateOf?: string;
+}
+
+export interface ReleaseSection {
+  id: ReleaseSectionId;
+  title: string;
+  items: ReleaseItem[];
+}
+
+export interface ReleaseDocument {
+  owner: string;
+  repo: string;
+  /** One- or two-sentence summary of the whole release */
+  headline: string | null;
+  sections: ReleaseSection[];
+  model: string;
+  generatedAt: number;
+}
+
+export type ReleaseStreamEventType =
+  | 'start'
+  | 'item'
+  | 'section'
+  | 'summary'
+  | 'document'
+  | 'complete'
+  | 'error';
+
+export interface ReleaseStreamStart {
+  total: number;
+}
+
+export interface ReleaseStreamEvent {
+  type: ReleaseStreamEventType;
+  data?: ReleaseStreamStart | ReleaseItem | ReleaseSection | ReleaseDocument | string;
+  error?: string;
+}
+
+export interface ReleaseDocumentState {
+  loading: boolean;
+  error: string | null;
+  total: number;
+  items: ReleaseItem[];
+  headline: string | null;
+  document: ReleaseDocument | null;
+}